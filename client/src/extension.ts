@@ -4,7 +4,10 @@
  * ------------------------------------------------------------------------------------------ */
 import * as path from 'path';
 
-import { workspace, ExtensionContext, FileType as VFileType, FileSystemProvider, Uri, Event, FileChangeEvent, EventEmitter, FileSystemError, commands, window } from 'vscode';
+import {
+	workspace, ExtensionContext, FileType as VFileType, FileSystemProvider, Uri, Event, FileChangeEvent, EventEmitter, FileSystemError, commands, window,
+	FileChangeType, WorkspaceFolder, TextDocumentContentProvider
+} from 'vscode';
 
 import {
 	LanguageClient,
@@ -13,8 +16,13 @@ import {
 	TransportKind,
 	Disposable,
 	RequestType,
+	NotificationType
 } from 'vscode-languageclient/node';
 
+import { showStatistics } from './statistics';
+import { LsifInspector } from './inspector';
+import { LsifOutlineProvider } from './outline';
+
 let client: LanguageClient;
 
 export function activate(context: ExtensionContext) {
@@ -26,13 +34,23 @@ export function activate(context: ExtensionContext) {
 				canSelectFiles: true,
 				canSelectFolders: false,
 				canSelectMany: true,
-				filters: { 'LSIF': ['db', 'lsif'] }
+				filters: { 'LSIF': ['db', 'lsif', 'gz', 'zst', 'zstd'] }
 			}
-		).then((values: Uri[] | undefined) => {
+		).then(async (values: Uri[] | undefined) => {
 			if (values === undefined || values.length === 0) {
 				return;
 			}
 			let toAdd = values.map((uri) => { return { uri: uri.with({ scheme: 'lsif'}) }; });
+			let client = await clientPromise;
+			for (let item of toAdd) {
+				if (path.extname(item.uri.fsPath) !== '.db') {
+					continue;
+				}
+				let version = await pickVersion(client, item.uri, context.workspaceState.get(versionKey(item.uri)), true);
+				if (version !== undefined) {
+					await context.workspaceState.update(versionKey(item.uri), version);
+				}
+			}
 			workspace.updateWorkspaceFolders(
 				workspace.workspaceFolders ? workspace.workspaceFolders.length : 0,
 				0,
@@ -41,6 +59,61 @@ export function activate(context: ExtensionContext) {
 		});
 	});
 
+	commands.registerCommand('lsif.convertDump', async () => {
+		let dumps = await window.showOpenDialog({
+			openLabel: 'Select LSIF Dump to convert',
+			canSelectFiles: true,
+			canSelectFolders: false,
+			canSelectMany: false,
+			filters: { 'LSIF': ['lsif', 'gz', 'zst', 'zstd'] }
+		});
+		if (dumps === undefined || dumps.length === 0) {
+			return;
+		}
+		let dump = dumps[0];
+		let format = await window.showQuickPick([
+			{ label: 'Graph', description: 'Stores the LSIF graph', format: 'graph' as const },
+			{ label: 'Blob', description: 'Stores a blob per document. Can hold several versions.', format: 'blob' as const }
+		], { placeHolder: 'Select the database format' });
+		if (format === undefined) {
+			return;
+		}
+		let tag: string | undefined;
+		if (format.format === 'blob') {
+			tag = await window.showInputBox({ prompt: 'Enter the version tag of the dump', value: path.basename(dump.fsPath) });
+			if (tag === undefined) {
+				return;
+			}
+		}
+		let database = await window.showSaveDialog({
+			saveLabel: 'Convert',
+			defaultUri: dump.with({ path: `${dump.path.replace(/\.lsif(\.gz|\.zstd?)?$/, '')}.db` }),
+			filters: { 'LSIF Database': ['db'] }
+		});
+		if (database === undefined) {
+			return;
+		}
+		let client = await clientPromise;
+		let summary: ImportSummary;
+		try {
+			summary = await client.sendRequest(ImportDumpRequest.type, {
+				dump: client.code2ProtocolConverter.asUri(dump),
+				database: client.code2ProtocolConverter.asUri(database),
+				format: format.format,
+				tag
+			});
+		} catch (error: any) {
+			window.showErrorMessage(`Failed to convert ${path.basename(dump.fsPath)}: ${error.message}`);
+			return;
+		}
+		window.showInformationMessage(`Converted ${path.basename(dump.fsPath)}: ${summary.documents} documents, ${summary.ranges} ranges, ${summary.resultSets} result sets, ${summary.monikers} monikers (${summary.vertices} vertices, ${summary.edges} edges).`);
+		let uri = database.with({ scheme: 'lsif' });
+		if (tag !== undefined) {
+			await context.workspaceState.update(versionKey(uri), tag);
+		}
+		workspace.updateWorkspaceFolders(workspace.workspaceFolders ? workspace.workspaceFolders.length : 0, 0, { uri });
+	});
+
 	// The server is implemented in node
 	let serverModule = context.asAbsolutePath(
 		path.join('server', 'out', 'lsifServer.js')
@@ -79,7 +152,311 @@ export function activate(context: ExtensionContext) {
 		client.start().then(() => { resolve(client); }, reject);
 	});
 
-	workspace.registerFileSystemProvider('lsif', new LsifFS(clientPromise), { isCaseSensitive: true, isReadonly: true});
+	client.onRequest(SelectedVersionRequest.type, (params) => {
+		let version: string | undefined = context.workspaceState.get(versionKey(Uri.parse(params.uri)));
+		return version !== undefined ? version : null;
+	});
+
+	client.onRequest(LocalFolderRequest.type, (params) => {
+		let folder: string | undefined = context.workspaceState.get(localFolderKey(Uri.parse(params.uri)));
+		return folder !== undefined ? folder : null;
+	});
+
+	client.onNotification(SkippedElementsNotification.type, async (params) => {
+		let name = path.basename(Uri.parse(params.uri).fsPath);
+		let action = await window.showWarningMessage(`Skipped ${params.count} malformed elements while loading ${name}.`, 'Show Log');
+		if (action !== undefined) {
+			client.outputChannel.show(true);
+		}
+	});
+
+	let lsifFS = new LsifFS(clientPromise);
+	workspace.registerFileSystemProvider('lsif', lsifFS, { isCaseSensitive: true, isReadonly: true});
+
+	workspace.registerTextDocumentContentProvider(LSIF_VERSION_SCHEME, new LsifVersionContentProvider(clientPromise));
+
+	commands.registerCommand('lsif.selectVersion', async () => {
+		let folder = await pickDatabaseFolder();
+		if (folder === undefined) {
+			return;
+		}
+		let client = await clientPromise;
+		let version = await pickVersion(client, folder.uri, context.workspaceState.get(versionKey(folder.uri)), false);
+		if (version === undefined) {
+			return;
+		}
+		try {
+			await client.sendRequest(SetVersionRequest.type, { uri: client.code2ProtocolConverter.asUri(folder.uri), version });
+		} catch (error: any) {
+			window.showErrorMessage(`Failed to switch to version ${version}: ${error.message}`);
+			return;
+		}
+		await context.workspaceState.update(versionKey(folder.uri), version);
+		// The content of every open document of the database depends on the version. Documents
+		// outside of the workspace root carry the database in their query.
+		let database = folder.uri.toString();
+		let changed = workspace.textDocuments.map(document => document.uri).filter((uri) => {
+			return uri.scheme === 'lsif' && (uri.toString().startsWith(`${database}/`) || uri.query === database);
+		});
+		lsifFS.fireChanged([folder.uri].concat(changed));
+	});
+
+	commands.registerCommand('lsif.mapLocalFolder', async () => {
+		let folder = await pickDatabaseFolder(false);
+		if (folder === undefined) {
+			return;
+		}
+		let current: string | undefined = context.workspaceState.get(localFolderKey(folder.uri));
+		let localFolder: Uri | undefined;
+		if (current !== undefined) {
+			let action = await window.showQuickPick([
+				{ label: 'Select Local Folder...', remove: false },
+				{ label: 'Remove Mapping', description: Uri.parse(current).fsPath, remove: true }
+			], { placeHolder: `${folder.name} is mapped onto ${Uri.parse(current).fsPath}` });
+			if (action === undefined) {
+				return;
+			}
+			if (!action.remove) {
+				localFolder = await pickLocalFolder(folder);
+				if (localFolder === undefined) {
+					return;
+				}
+			}
+		} else {
+			localFolder = await pickLocalFolder(folder);
+			if (localFolder === undefined) {
+				return;
+			}
+		}
+		let client = await clientPromise;
+		let value = localFolder !== undefined ? client.code2ProtocolConverter.asUri(localFolder) : undefined;
+		try {
+			await client.sendRequest(SetLocalFolderRequest.type, { uri: client.code2ProtocolConverter.asUri(folder.uri), folder: value !== undefined ? value : null });
+		} catch (error: any) {
+			window.showErrorMessage(`Failed to map ${folder.name} onto a local folder: ${error.message}`);
+			return;
+		}
+		await context.workspaceState.update(localFolderKey(folder.uri), value);
+	});
+
+	commands.registerCommand('lsif.compareVersions', async () => {
+		let folder = await pickDatabaseFolder();
+		if (folder === undefined) {
+			return;
+		}
+		let client = await clientPromise;
+		let from = await pickVersion(client, folder.uri, undefined, false, 'Select the version to compare from');
+		if (from === undefined) {
+			return;
+		}
+		let to = await pickVersion(client, folder.uri, undefined, false, 'Select the version to compare to');
+		if (to === undefined) {
+			return;
+		}
+		let diff: VersionDiff;
+		try {
+			diff = await client.sendRequest(VersionDiffRequest.type, { uri: client.code2ProtocolConverter.asUri(folder.uri), from, to });
+		} catch (error: any) {
+			window.showErrorMessage(`Failed to compare versions ${from} and ${to}: ${error.message}`);
+			return;
+		}
+		let database = client.code2ProtocolConverter.asUri(folder.uri);
+		let asItem = (kind: 'added' | 'removed' | 'changed', document: DocumentDiff) => {
+			let uri = client.protocol2CodeConverter.asUri(document.uri);
+			return { label: workspace.asRelativePath(uri), description: kind, picked: kind === 'changed', document };
+		};
+		let items = [
+			...diff.changed.map(document => asItem('changed', document)),
+			...diff.added.map(document => asItem('added', document)),
+			...diff.removed.map(document => asItem('removed', document))
+		];
+		if (items.length === 0) {
+			window.showInformationMessage(`Versions ${from} and ${to} contain the same documents.`);
+			return;
+		}
+		let selected = await window.showQuickPick(items, {
+			canPickMany: true,
+			placeHolder: `${diff.changed.length} changed, ${diff.added.length} added, ${diff.removed.length} removed. Select the documents to open.`
+		});
+		if (selected === undefined) {
+			return;
+		}
+		for (let item of selected) {
+			let uri = client.protocol2CodeConverter.asUri(item.document.uri);
+			let left = item.document.fromHash !== undefined ? LsifVersionContentProvider.asUri(uri, database, item.document.fromHash) : undefined;
+			let right = item.document.toHash !== undefined ? LsifVersionContentProvider.asUri(uri, database, item.document.toHash) : undefined;
+			if (left !== undefined && right !== undefined) {
+				await commands.executeCommand('vscode.diff', left, right, `${path.basename(uri.path)} (${from} ↔ ${to})`, { preview: false });
+			} else {
+				await window.showTextDocument((left || right)!, { preview: false });
+			}
+		}
+	});
+
+	commands.registerCommand('lsif.exportDump', async () => {
+		let folder = await pickDatabaseFolder();
+		if (folder === undefined) {
+			return;
+		}
+		let database = folder.uri.with({ scheme: 'file' });
+		let dump = await window.showSaveDialog({
+			saveLabel: 'Export',
+			defaultUri: database.with({ path: `${database.path.replace(/\.db$/, '')}.lsif` }),
+			filters: { 'LSIF': ['lsif'] }
+		});
+		if (dump === undefined) {
+			return;
+		}
+		let client = await clientPromise;
+		let summary: ExportSummary;
+		try {
+			summary = await client.sendRequest(ExportDumpRequest.type, {
+				uri: client.code2ProtocolConverter.asUri(folder.uri),
+				dump: client.code2ProtocolConverter.asUri(dump)
+			});
+		} catch (error: any) {
+			window.showErrorMessage(`Failed to export ${folder.name}: ${error.message}`);
+			return;
+		}
+		window.showInformationMessage(`Exported ${folder.name} to ${path.basename(dump.fsPath)}: ${summary.vertices} vertices, ${summary.edges} edges.`);
+	});
+
+	commands.registerCommand('lsif.validateDump', async () => {
+		let dump = await pickDumpFile();
+		if (dump === undefined) {
+			return;
+		}
+		let client = await clientPromise;
+		let summary: ValidationSummary;
+		try {
+			summary = await client.sendRequest(ValidateDumpRequest.type, { dump: client.code2ProtocolConverter.asUri(dump) });
+		} catch (error: any) {
+			window.showErrorMessage(`Failed to validate ${path.basename(dump.fsPath)}: ${error.message}`);
+			return;
+		}
+		let name = path.basename(dump.fsPath);
+		if (summary.errors === 0 && summary.warnings === 0) {
+			window.showInformationMessage(`${name} is valid: ${summary.vertices} vertices, ${summary.edges} edges.`);
+			return;
+		}
+		let shown = summary.reported < summary.errors + summary.warnings ? ` The first ${summary.reported} are shown in the Problems panel.` : '';
+		let action = await window.showWarningMessage(
+			`${name} has ${summary.errors} errors and ${summary.warnings} warnings (${summary.vertices} vertices, ${summary.edges} edges).${shown}`,
+			'Show Problems'
+		);
+		if (action !== undefined) {
+			await commands.executeCommand('workbench.actions.view.problems');
+		}
+	});
+
+	commands.registerCommand('lsif.showStatistics', async () => {
+		let folders = (workspace.workspaceFolders || []).filter(folder => folder.uri.scheme === 'lsif');
+		if (folders.length === 0) {
+			window.showInformationMessage('No LSIF database is open.');
+			return;
+		}
+		await showStatistics(await clientPromise, folders);
+	});
+
+	window.registerTreeDataProvider('lsif.outline', new LsifOutlineProvider(clientPromise));
+	let updateDatabaseContext = () => {
+		let hasDatabases = (workspace.workspaceFolders || []).some(folder => folder.uri.scheme === 'lsif');
+		commands.executeCommand('setContext', 'lsif.hasDatabases', hasDatabases);
+	};
+	workspace.onDidChangeWorkspaceFolders(updateDatabaseContext);
+	updateDatabaseContext();
+
+	let inspector: LsifInspector | undefined;
+	commands.registerCommand('lsif.inspectAtCursor', async () => {
+		let editor = window.activeTextEditor;
+		if (editor === undefined || editor.document.uri.scheme !== 'lsif') {
+			window.showInformationMessage('Open a document of an LSIF database to inspect it.');
+			return;
+		}
+		if (inspector === undefined) {
+			inspector = new LsifInspector(await clientPromise);
+		}
+		await inspector.inspect(editor.document.uri, editor.selection.active);
+	});
+}
+
+async function pickDatabaseFolder(onlyDatabases: boolean = true): Promise<WorkspaceFolder | undefined> {
+	let folders = (workspace.workspaceFolders || []).filter(folder => folder.uri.scheme === 'lsif' && (!onlyDatabases || path.extname(folder.uri.fsPath) === '.db'));
+	if (folders.length === 0) {
+		window.showInformationMessage('No LSIF database is open.');
+		return undefined;
+	}
+	if (folders.length === 1) {
+		return folders[0];
+	}
+	let items = folders.map((folder) => { return { label: folder.name, description: folder.uri.fsPath, folder }; });
+	return (await window.showQuickPick(items, { placeHolder: 'Select the LSIF database' }))?.folder;
+}
+
+/**
+ * Lets the user pick an opened line json dump or browse for one.
+ */
+async function pickDumpFile(): Promise<Uri | undefined> {
+	let folders = (workspace.workspaceFolders || []).filter(folder => folder.uri.scheme === 'lsif' && path.extname(folder.uri.fsPath) !== '.db');
+	let items: { label: string; description?: string; uri: Uri | undefined }[] = folders.map((folder) => {
+		return { label: folder.name, description: folder.uri.fsPath, uri: folder.uri.with({ scheme: 'file' }) };
+	});
+	items.push({ label: 'Browse...', uri: undefined });
+	let selected = items.length > 1 ? await window.showQuickPick(items, { placeHolder: 'Select the LSIF dump' }) : items[0];
+	if (selected === undefined) {
+		return undefined;
+	}
+	if (selected.uri !== undefined) {
+		return selected.uri;
+	}
+	let dumps = await window.showOpenDialog({
+		openLabel: 'Select LSIF Dump to validate',
+		canSelectFiles: true,
+		canSelectFolders: false,
+		canSelectMany: false,
+		filters: { 'LSIF': ['lsif', 'gz', 'zst', 'zstd'] }
+	});
+	return dumps !== undefined && dumps.length > 0 ? dumps[0] : undefined;
+}
+
+function versionKey(uri: Uri): string {
+	return `lsif.version/${uri.toString()}`;
+}
+
+function localFolderKey(uri: Uri): string {
+	return `lsif.localFolder/${uri.toString()}`;
+}
+
+/**
+ * Lets the user pick the local checkout of the sources a database got created from.
+ */
+async function pickLocalFolder(folder: WorkspaceFolder): Promise<Uri | undefined> {
+	let defaultUri = (workspace.workspaceFolders || []).find(item => item.uri.scheme === 'file')?.uri;
+	let values = await window.showOpenDialog({
+		openLabel: `Map ${folder.name}`,
+		canSelectFiles: false,
+		canSelectFolders: true,
+		canSelectMany: false,
+		defaultUri
+	});
+	return values !== undefined && values.length > 0 ? values[0] : undefined;
+}
+
+/**
+ * Lets the user pick a version tag of a blob database. Returns `undefined` if the
+ * database has no versions or the user cancelled. If `onlyIfMany` is set no
+ * pick is shown for databases with a single version.
+ */
+async function pickVersion(client: LanguageClient, uri: Uri, current: string | undefined, onlyIfMany: boolean, placeHolder?: string): Promise<string | undefined> {
+	let tags = await client.sendRequest(VersionTagsRequest.type, { uri: client.code2ProtocolConverter.asUri(uri) });
+	if (tags.length === 0 || (onlyIfMany && tags.length === 1)) {
+		return undefined;
+	}
+	let items = tags.map((item) => {
+		return { label: item.tag, description: new Date(item.dateTime).toLocaleString(), detail: item.tag === current ? 'Selected version' : undefined };
+	});
+	let selected = await window.showQuickPick(items, { placeHolder: placeHolder || `Select the version of ${path.basename(uri.fsPath)} to browse` });
+	return selected?.label;
 }
 
 export function deactivate(): Thenable<void> | undefined {
@@ -129,6 +506,170 @@ namespace ReadDirectoryRequest {
 	export const type = new RequestType<ReadDirectoryParams, [string, FileType][], void>('lsif/readDirectory');
 }
 
+interface VersionTag {
+	tag: string;
+	dateTime: number;
+}
+
+interface VersionTagsParams {
+	uri: string;
+}
+
+namespace VersionTagsRequest {
+	export const type = new RequestType<VersionTagsParams, VersionTag[], void>('lsif/versionTags');
+}
+
+interface SetVersionParams {
+	uri: string;
+	version: string;
+}
+
+namespace SetVersionRequest {
+	export const type = new RequestType<SetVersionParams, void, void>('lsif/setVersion');
+}
+
+interface SelectedVersionParams {
+	uri: string;
+}
+
+namespace SelectedVersionRequest {
+	export const type = new RequestType<SelectedVersionParams, string | null, void>('lsif/selectedVersion');
+}
+
+interface LocalFolderParams {
+	uri: string;
+}
+
+namespace LocalFolderRequest {
+	export const type = new RequestType<LocalFolderParams, string | null, void>('lsif/localFolder');
+}
+
+interface SetLocalFolderParams {
+	uri: string;
+	folder: string | null;
+}
+
+namespace SetLocalFolderRequest {
+	export const type = new RequestType<SetLocalFolderParams, void, void>('lsif/setLocalFolder');
+}
+
+interface DocumentDiff {
+	uri: string;
+	fromHash?: string;
+	toHash?: string;
+}
+
+interface VersionDiff {
+	added: DocumentDiff[];
+	removed: DocumentDiff[];
+	changed: DocumentDiff[];
+}
+
+interface VersionDiffParams {
+	uri: string;
+	from: string;
+	to: string;
+}
+
+namespace VersionDiffRequest {
+	export const type = new RequestType<VersionDiffParams, VersionDiff, void>('lsif/versionDiff');
+}
+
+interface ReadDocumentByHashParams {
+	uri: string;
+	documentHash: string;
+}
+
+namespace ReadDocumentByHashRequest {
+	export const type = new RequestType<ReadDocumentByHashParams, string | null, void>('lsif/readDocumentByHash');
+}
+
+interface ImportSummary {
+	format: 'graph' | 'blob';
+	vertices: number;
+	edges: number;
+	documents: number;
+	ranges: number;
+	resultSets: number;
+	monikers: number;
+}
+
+interface ImportDumpParams {
+	dump: string;
+	database: string;
+	format: 'graph' | 'blob';
+	tag?: string;
+}
+
+namespace ImportDumpRequest {
+	export const type = new RequestType<ImportDumpParams, ImportSummary, void>('lsif/importDump');
+}
+
+interface ExportSummary {
+	vertices: number;
+	edges: number;
+}
+
+interface ExportDumpParams {
+	uri: string;
+	dump: string;
+}
+
+namespace ExportDumpRequest {
+	export const type = new RequestType<ExportDumpParams, ExportSummary, void>('lsif/exportDump');
+}
+
+interface ValidationSummary {
+	vertices: number;
+	edges: number;
+	errors: number;
+	warnings: number;
+	reported: number;
+}
+
+interface ValidateDumpParams {
+	dump: string;
+}
+
+namespace ValidateDumpRequest {
+	export const type = new RequestType<ValidateDumpParams, ValidationSummary, void>('lsif/validateDump');
+}
+
+interface SkippedElementsParams {
+	uri: string;
+	count: number;
+}
+
+namespace SkippedElementsNotification {
+	export const type = new NotificationType<SkippedElementsParams>('lsif/skippedElements');
+}
+
+const LSIF_VERSION_SCHEME = 'lsif-version';
+
+/**
+ * Provides the content of a document in a specific version of a blob database.
+ * The database and the document hash are encoded in the query of the URI.
+ */
+class LsifVersionContentProvider implements TextDocumentContentProvider {
+
+	public static asUri(document: Uri, database: string, documentHash: string): Uri {
+		return Uri.from({ scheme: LSIF_VERSION_SCHEME, path: document.path, query: JSON.stringify({ database, documentHash }) });
+	}
+
+	private readonly client: Promise<LanguageClient>;
+
+	public constructor(client: Promise<LanguageClient>) {
+		this.client = client;
+	}
+
+	async provideTextDocumentContent(uri: Uri): Promise<string> {
+		let client = await this.client;
+		let query: { database: string; documentHash: string; } = JSON.parse(uri.query);
+		let value = await client.sendRequest(ReadDocumentByHashRequest.type, { uri: query.database, documentHash: query.documentHash });
+		return value !== null ? value : '';
+	}
+}
+
 class LsifFS implements FileSystemProvider {
 
 	private readonly client: Promise<LanguageClient>;
@@ -142,6 +683,10 @@ class LsifFS implements FileSystemProvider {
 		this.onDidChangeFile = this.emitter.event;
 	}
 
+	public fireChanged(uris: Uri[]): void {
+		this.emitter.fire(uris.map(uri => ({ type: FileChangeType.Changed, uri })));
+	}
+
 	watch(uri: Uri, options: { recursive: boolean; excludes: string[]; }): Disposable {
 		// The LSIF file systrem never changes.
 		return Disposable.create(():void => {});
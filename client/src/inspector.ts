@@ -0,0 +1,89 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import {
+	commands, window, Event, EventEmitter, Position, Selection, TreeDataProvider, TreeItem, TreeItemCollapsibleState, TreeView, Uri
+} from 'vscode';
+
+import { LanguageClient, RequestType, Location } from 'vscode-languageclient/node';
+
+interface InspectedElement {
+	id?: number | string;
+	label: string;
+	edge?: string;
+	description?: string;
+	location?: Location;
+	properties?: object;
+	children?: InspectedElement[];
+}
+
+interface InspectParams {
+	uri: string;
+	position: { line: number; character: number };
+}
+
+namespace InspectRequest {
+	export const type = new RequestType<InspectParams, InspectedElement[] | null, void>('lsif/inspect');
+}
+
+/**
+ * Shows the LSIF vertices found at a position as a tree. The tree starts with the
+ * range vertices containing the position and follows the edges from there.
+ */
+export class LsifInspector implements TreeDataProvider<InspectedElement> {
+
+	private roots: InspectedElement[];
+	private readonly view: TreeView<InspectedElement>;
+	private readonly emitter: EventEmitter<InspectedElement | undefined>;
+	public readonly onDidChangeTreeData: Event<InspectedElement | undefined>;
+
+	public constructor(private client: LanguageClient) {
+		this.roots = [];
+		this.emitter = new EventEmitter<InspectedElement | undefined>();
+		this.onDidChangeTreeData = this.emitter.event;
+		this.view = window.createTreeView('lsif.inspector', { treeDataProvider: this, showCollapseAll: true });
+	}
+
+	public async inspect(uri: Uri, position: Position): Promise<void> {
+		const result = await this.client.sendRequest(InspectRequest.type, {
+			uri: this.client.code2ProtocolConverter.asUri(uri),
+			position: { line: position.line, character: position.character }
+		});
+		this.roots = result !== null ? result : [];
+		this.view.message = this.roots.length === 0
+			? `No range vertex found at ${position.line + 1}:${position.character + 1}.`
+			: undefined;
+		this.emitter.fire(undefined);
+		await commands.executeCommand('setContext', 'lsif.inspectorVisible', true);
+		await commands.executeCommand('lsif.inspector.focus');
+	}
+
+	public getTreeItem(element: InspectedElement): TreeItem {
+		const label = element.id !== undefined ? `${element.label} ${element.id}` : element.label;
+		const state = element.children === undefined || element.children.length === 0
+			? TreeItemCollapsibleState.None
+			: element.edge === undefined ? TreeItemCollapsibleState.Expanded : TreeItemCollapsibleState.Collapsed;
+		const result = new TreeItem(element.edge !== undefined ? `${element.edge} → ${label}` : label, state);
+		result.description = element.description;
+		if (element.properties !== undefined) {
+			result.tooltip = JSON.stringify(element.properties, undefined, 2);
+		}
+		if (element.location !== undefined) {
+			const range = this.client.protocol2CodeConverter.asRange(element.location.range);
+			result.command = {
+				title: 'Open Range',
+				command: 'vscode.open',
+				arguments: [this.client.protocol2CodeConverter.asUri(element.location.uri), { selection: new Selection(range.start, range.end) }]
+			};
+		}
+		return result;
+	}
+
+	public getChildren(element?: InspectedElement): InspectedElement[] {
+		if (element === undefined) {
+			return this.roots;
+		}
+		return element.children !== undefined ? element.children : [];
+	}
+}
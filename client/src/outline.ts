@@ -0,0 +1,182 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import * as path from 'path';
+
+import {
+	workspace, window, Event, EventEmitter, Selection, ThemeIcon, TreeDataProvider, TreeItem, TreeItemCollapsibleState, Uri, WorkspaceFolder
+} from 'vscode';
+
+import { LanguageClient, RequestType, Location } from 'vscode-languageclient/node';
+
+interface ProjectOutline {
+	id: number | string;
+	name: string;
+	documents: string[];
+}
+
+interface MonikerStatistics {
+	scheme: string;
+	kind?: string;
+	count: number;
+}
+
+interface DatabaseOutline {
+	projects: ProjectOutline[];
+	documents: string[];
+	externalDocuments: string[];
+	monikers: MonikerStatistics[];
+}
+
+interface MonikerLocation {
+	identifier: string;
+	location?: Location;
+}
+
+interface OutlineParams {
+	uri: string;
+}
+
+namespace OutlineRequest {
+	export const type = new RequestType<OutlineParams, DatabaseOutline, void>('lsif/outline');
+}
+
+interface ListMonikersParams {
+	uri: string;
+	scheme: string;
+	kind: string;
+}
+
+namespace ListMonikersRequest {
+	export const type = new RequestType<ListMonikersParams, MonikerLocation[], void>('lsif/listMonikers');
+}
+
+type OutlineNode =
+	{ kind: 'database'; folder: WorkspaceFolder } |
+	{ kind: 'documents'; label: string; icon: string; documents: string[] } |
+	{ kind: 'document'; uri: string } |
+	{ kind: 'monikers'; folder: WorkspaceFolder; monikers: MonikerStatistics[] } |
+	{ kind: 'scheme'; folder: WorkspaceFolder; scheme: string; monikers: MonikerStatistics[] } |
+	{ kind: 'monikerKind'; folder: WorkspaceFolder; scheme: string; monikerKind: string; count: number } |
+	{ kind: 'moniker'; moniker: MonikerLocation } |
+	{ kind: 'message'; message: string };
+
+/**
+ * Lists the projects, documents and monikers of the mounted LSIF databases.
+ */
+export class LsifOutlineProvider implements TreeDataProvider<OutlineNode> {
+
+	private readonly emitter: EventEmitter<OutlineNode | undefined>;
+	public readonly onDidChangeTreeData: Event<OutlineNode | undefined>;
+
+	public constructor(private clientPromise: Promise<LanguageClient>) {
+		this.emitter = new EventEmitter<OutlineNode | undefined>();
+		this.onDidChangeTreeData = this.emitter.event;
+		workspace.onDidChangeWorkspaceFolders(() => this.emitter.fire(undefined));
+	}
+
+	public getTreeItem(node: OutlineNode): TreeItem {
+		let result: TreeItem;
+		switch (node.kind) {
+			case 'database':
+				result = new TreeItem(node.folder.name, TreeItemCollapsibleState.Expanded);
+				result.description = path.basename(node.folder.uri.fsPath);
+				result.iconPath = new ThemeIcon('database');
+				return result;
+			case 'documents':
+				result = new TreeItem(node.label, TreeItemCollapsibleState.Collapsed);
+				result.description = `${node.documents.length}`;
+				result.iconPath = new ThemeIcon(node.icon);
+				return result;
+			case 'document':
+				const uri = Uri.parse(node.uri);
+				result = new TreeItem(uri, TreeItemCollapsibleState.None);
+				result.description = path.posix.dirname(workspace.asRelativePath(uri, false));
+				result.command = { title: 'Open Document', command: 'vscode.open', arguments: [uri] };
+				return result;
+			case 'monikers':
+				result = new TreeItem('Monikers', TreeItemCollapsibleState.Collapsed);
+				result.iconPath = new ThemeIcon('symbol-reference');
+				return result;
+			case 'scheme':
+				return new TreeItem(node.scheme, TreeItemCollapsibleState.Collapsed);
+			case 'monikerKind':
+				result = new TreeItem(node.monikerKind, TreeItemCollapsibleState.Collapsed);
+				result.description = `${node.count}`;
+				return result;
+			case 'moniker':
+				result = new TreeItem(node.moniker.identifier, TreeItemCollapsibleState.None);
+				if (node.moniker.location !== undefined) {
+					result.command = {
+						title: 'Open Moniker',
+						command: 'vscode.open',
+						arguments: [Uri.parse(node.moniker.location.uri), { selection: LsifOutlineProvider.asSelection(node.moniker.location) }]
+					};
+				} else {
+					result.description = 'no location';
+				}
+				return result;
+			case 'message':
+				return new TreeItem(node.message, TreeItemCollapsibleState.None);
+		}
+	}
+
+	public async getChildren(node?: OutlineNode): Promise<OutlineNode[]> {
+		if (node === undefined) {
+			return (workspace.workspaceFolders || []).filter(folder => folder.uri.scheme === 'lsif').map(folder => ({ kind: 'database', folder }));
+		}
+		const client = await this.clientPromise;
+		switch (node.kind) {
+			case 'database':
+				let outline: DatabaseOutline;
+				try {
+					outline = await client.sendRequest(OutlineRequest.type, { uri: client.code2ProtocolConverter.asUri(node.folder.uri) });
+				} catch (error: any) {
+					window.showErrorMessage(`Failed to read the outline of ${node.folder.name}: ${error.message}`);
+					return [];
+				}
+				const result: OutlineNode[] = outline.projects.map(project => ({ kind: 'documents', label: project.name, icon: 'project', documents: project.documents }));
+				if (outline.documents.length > 0) {
+					result.push({ kind: 'documents', label: outline.projects.length > 0 ? 'Documents without Project' : 'Documents', icon: 'files', documents: outline.documents });
+				}
+				if (outline.externalDocuments.length > 0) {
+					result.push({ kind: 'documents', label: 'External Documents', icon: 'link-external', documents: outline.externalDocuments });
+				}
+				if (outline.monikers.length > 0) {
+					result.push({ kind: 'monikers', folder: node.folder, monikers: outline.monikers });
+				}
+				return result;
+			case 'documents':
+				return node.documents.map(uri => ({ kind: 'document', uri }));
+			case 'monikers':
+				const schemes: Map<string, MonikerStatistics[]> = new Map();
+				for (const item of node.monikers) {
+					let values = schemes.get(item.scheme);
+					if (values === undefined) {
+						values = [];
+						schemes.set(item.scheme, values);
+					}
+					values.push(item);
+				}
+				return Array.from(schemes.entries()).map(([scheme, monikers]) => ({ kind: 'scheme', folder: node.folder, scheme, monikers }));
+			case 'scheme':
+				return node.monikers.map(item => ({ kind: 'monikerKind', folder: node.folder, scheme: node.scheme, monikerKind: item.kind!, count: item.count }));
+			case 'monikerKind':
+				const monikers = await client.sendRequest(ListMonikersRequest.type, {
+					uri: client.code2ProtocolConverter.asUri(node.folder.uri), scheme: node.scheme, kind: node.monikerKind
+				});
+				if (monikers.length === 0) {
+					return [{ kind: 'message', message: 'No monikers found.' }];
+				}
+				return monikers.map(moniker => ({ kind: 'moniker', moniker }));
+			default:
+				return [];
+		}
+	}
+
+	private static asSelection(location: Location): Selection {
+		const range = location.range;
+		return new Selection(range.start.line, range.start.character, range.end.line, range.end.character);
+	}
+}
@@ -0,0 +1,140 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import { window, ViewColumn, WebviewPanel, WorkspaceFolder } from 'vscode';
+
+import { LanguageClient, RequestType } from 'vscode-languageclient/node';
+
+interface MonikerStatistics {
+	scheme: string;
+	kind?: string;
+	count: number;
+}
+
+interface DatabaseStatistics {
+	format: 'json' | 'graph' | 'blob';
+	protocolVersion?: string;
+	toolInfo?: { name: string; version?: string; args?: string[] };
+	workspaceRoot: string;
+	versionTag?: string;
+	documents: number;
+	ranges: number;
+	resultSets: number;
+	monikers: MonikerStatistics[];
+	results: {
+		hover: number;
+		declaration: number;
+		definition: number;
+		typeDefinition: number;
+		references: number;
+		implementation: number;
+	};
+}
+
+interface StatisticsParams {
+	uri: string;
+}
+
+namespace StatisticsRequest {
+	export const type = new RequestType<StatisticsParams, DatabaseStatistics, void>('lsif/statistics');
+}
+
+const formatNames: { [key: string]: string } = {
+	json: 'JSON dump',
+	graph: 'SQLite graph database',
+	blob: 'SQLite blob database'
+};
+
+let panel: WebviewPanel | undefined;
+
+/**
+ * Shows the statistics of the given databases in a webview. An already open view is reused.
+ */
+export async function showStatistics(client: LanguageClient, folders: readonly WorkspaceFolder[]): Promise<void> {
+	const sections: string[] = [];
+	for (const folder of folders) {
+		try {
+			const statistics = await client.sendRequest(StatisticsRequest.type, { uri: client.code2ProtocolConverter.asUri(folder.uri) });
+			sections.push(renderStatistics(folder, statistics));
+		} catch (error: any) {
+			sections.push(`<h2>${escapeHtml(folder.name)}</h2><p>Failed to compute the statistics: ${escapeHtml(error.message)}</p>`);
+		}
+	}
+	if (panel === undefined) {
+		panel = window.createWebviewPanel('lsif.statistics', 'LSIF Statistics', ViewColumn.Active, { enableScripts: false });
+		panel.onDidDispose(() => { panel = undefined; });
+	} else {
+		panel.reveal();
+	}
+	panel.webview.html = [
+		'<!DOCTYPE html>',
+		'<html lang="en">',
+		'<head>',
+		'<meta charset="UTF-8">',
+		`<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline';">`,
+		'<style>',
+		'body { font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); color: var(--vscode-foreground); }',
+		'table { border-collapse: collapse; margin-bottom: 1em; }',
+		'th, td { text-align: left; padding: 2px 12px 2px 0; }',
+		'td.count { text-align: right; font-variant-numeric: tabular-nums; }',
+		'</style>',
+		'</head>',
+		'<body>',
+		...sections,
+		'</body>',
+		'</html>'
+	].join('\n');
+}
+
+function renderStatistics(folder: WorkspaceFolder, statistics: DatabaseStatistics): string {
+	const general: [string, string][] = [
+		['File', folder.uri.fsPath],
+		['Format', formatNames[statistics.format] || statistics.format],
+		['Protocol version', statistics.protocolVersion || 'unknown'],
+		['Workspace root', statistics.workspaceRoot]
+	];
+	if (statistics.versionTag !== undefined) {
+		general.push(['Version', statistics.versionTag]);
+	}
+	if (statistics.toolInfo !== undefined) {
+		const toolInfo = statistics.toolInfo;
+		general.push(['Indexer', toolInfo.version !== undefined ? `${toolInfo.name} ${toolInfo.version}` : toolInfo.name]);
+		if (toolInfo.args !== undefined && toolInfo.args.length > 0) {
+			general.push(['Indexer arguments', toolInfo.args.join(' ')]);
+		}
+	}
+	const counts: [string, number][] = [
+		['Documents', statistics.documents],
+		['Ranges', statistics.ranges],
+		['Result sets', statistics.resultSets],
+		['Monikers', statistics.monikers.reduce((sum, item) => sum + item.count, 0)],
+		['Hover results', statistics.results.hover],
+		['Declaration results', statistics.results.declaration],
+		['Definition results', statistics.results.definition],
+		['Type definition results', statistics.results.typeDefinition],
+		['Reference results', statistics.results.references],
+		['Implementation results', statistics.results.implementation]
+	];
+	const result: string[] = [`<h2>${escapeHtml(folder.name)}</h2>`, '<table>'];
+	for (const [name, value] of general) {
+		result.push(`<tr><th>${name}</th><td>${escapeHtml(value)}</td></tr>`);
+	}
+	result.push('</table>', '<table>');
+	for (const [name, value] of counts) {
+		result.push(`<tr><th>${name}</th><td class="count">${value.toLocaleString()}</td></tr>`);
+	}
+	result.push('</table>');
+	if (statistics.monikers.length > 0) {
+		result.push('<table>', '<tr><th>Moniker scheme</th><th>Kind</th><th>Count</th></tr>');
+		for (const item of statistics.monikers) {
+			result.push(`<tr><td>${escapeHtml(item.scheme)}</td><td>${escapeHtml(item.kind || '')}</td><td class="count">${item.count.toLocaleString()}</td></tr>`);
+		}
+		result.push('</table>');
+	}
+	return result.join('\n');
+}
+
+function escapeHtml(value: string): string {
+	return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
@@ -6,59 +6,97 @@ import * as Sqlite from 'better-sqlite3';
 
 import * as lsp from 'vscode-languageserver';
 
-import { Database, UriTransformer } from './database';
 import {
-	Id, RangeBasedDocumentSymbol, Range, ReferenceResult, Moniker, MetaData
+	Database, UriTransformer, DatabaseStatistics, MonikerStatistics, InspectedElement, ProjectOutline, MonikerLocation, MonikerInfo,
+	MonikerResults, PackageInfo
+} from './database';
+import {
+	Id, RangeBasedDocumentSymbol, Range, ReferenceResult, Moniker, MetaData, Vertex, Edge, ElementTypes, VertexLabels, EdgeLabels, ItemEdgeProperties,
+	MonikerKind
 } from 'lsif-protocol';
 
 import { DocumentInfo } from './files';
 import { URI } from 'vscode-uri';
 
+export interface VersionTag {
+	tag: string;
+	dateTime: number;
+}
+
+export interface DocumentDiff {
+	uri: string;
+	fromHash?: string;
+	toHash?: string;
+}
+
+export interface VersionDiff {
+	added: DocumentDiff[];
+	removed: DocumentDiff[];
+	changed: DocumentDiff[];
+}
+
 interface MetaDataResult {
 	id: number;
 	value: string;
 }
 
-interface LiteralMap<T> {
+export interface LiteralMap<T> {
 	[key: string]: T;
 	[key: number]: T;
 }
 
-interface RangeData extends Pick<Range, 'start' | 'end' | 'tag'> {
+export interface RangeData extends Pick<Range, 'start' | 'end' | 'tag'> {
 	moniker?: Id;
 	next?: Id;
 	hoverResult?: Id;
 	declarationResult?: Id;
 	definitionResult?: Id;
+	typeDefinitionResult?: Id;
 	referenceResult?: Id;
+	implementationResult?: Id;
 }
 
-interface ResultSetData {
+export interface ResultSetData {
 	moniker?: Id;
 	next?: Id;
 	hoverResult?: Id;
 	declarationResult?: Id;
 	definitionResult?: Id;
+	typeDefinitionResult?: Id;
 	referenceResult?: Id;
+	implementationResult?: Id;
+}
+
+export interface DeclarationResultData {
+	values: Id[];
+}
+
+export interface DefinitionResultData {
+	values: Id[];
 }
 
-interface DeclarationResultData {
+export interface TypeDefinitionResultData {
 	values: Id[];
 }
 
-interface DefinitionResultData {
+export interface ImplementationResultData {
 	values: Id[];
 }
 
-interface ReferenceResultData {
+export interface ReferenceResultData {
 	declarations?: Id[];
 	definitions?: Id[];
 	references?: Id[];
 }
 
-type MonikerData = Pick<Moniker, 'scheme' | 'identifier' | 'kind'>;
+export type MonikerData = Pick<Moniker, 'scheme' | 'identifier' | 'kind'>;
 
-interface DocumentBlob {
+/**
+ * Monikers are stored in the moniker tables by scheme and identifier.
+ */
+type MonikerKey = Pick<MonikerData, 'scheme' | 'identifier'>;
+
+export interface DocumentBlob {
 	contents: string;
 	ranges: LiteralMap<RangeData>;
 	resultSets?: LiteralMap<ResultSetData>;
@@ -66,12 +104,31 @@ interface DocumentBlob {
 	hovers?: LiteralMap<lsp.Hover>;
 	declarationResults?: LiteralMap<DeclarationResultData>;
 	definitionResults?: LiteralMap<DefinitionResultData>;
+	typeDefinitionResults?: LiteralMap<TypeDefinitionResultData>;
 	referenceResults?: LiteralMap<ReferenceResultData>;
+	implementationResults?: LiteralMap<ImplementationResultData>;
 	foldingRanges?: lsp.FoldingRange[];
 	documentSymbols?: lsp.DocumentSymbol[] | RangeBasedDocumentSymbol[];
 	diagnostics?: lsp.Diagnostic[];
+	documentLinks?: lsp.DocumentLink[];
 }
 
+type ResultProperty = Exclude<keyof ResultSetData, 'moniker' | 'next'>;
+
+type ResultsProperty = 'hovers' | 'declarationResults' | 'definitionResults' | 'typeDefinitionResults' | 'referenceResults' | 'implementationResults';
+
+/**
+ * How the results of a blob map onto LSIF vertices and edges.
+ */
+const resultKinds: { property: ResultProperty; results: ResultsProperty; vertexLabel: VertexLabels; edgeLabel: EdgeLabels }[] = [
+	{ property: 'hoverResult', results: 'hovers', vertexLabel: VertexLabels.hoverResult, edgeLabel: EdgeLabels.textDocument_hover },
+	{ property: 'declarationResult', results: 'declarationResults', vertexLabel: VertexLabels.declarationResult, edgeLabel: EdgeLabels.textDocument_declaration },
+	{ property: 'definitionResult', results: 'definitionResults', vertexLabel: VertexLabels.definitionResult, edgeLabel: EdgeLabels.textDocument_definition },
+	{ property: 'typeDefinitionResult', results: 'typeDefinitionResults', vertexLabel: VertexLabels.typeDefinitionResult, edgeLabel: EdgeLabels.textDocument_typeDefinition },
+	{ property: 'referenceResult', results: 'referenceResults', vertexLabel: VertexLabels.referenceResult, edgeLabel: EdgeLabels.textDocument_references },
+	{ property: 'implementationResult', results: 'implementationResults', vertexLabel: VertexLabels.implementationResult, edgeLabel: EdgeLabels.textDocument_implementation }
+];
+
 interface DocumentsResult {
 	documentHash: string;
 	uri: string;
@@ -124,15 +181,35 @@ export class BlobStore extends Database {
 	private findHoverStmt!: Sqlite.Statement;
 
 	private version!: string;
+	private preferredVersion: string | undefined;
 	private workspaceRoot!: URI;
+	private metaData!: MetaData;
 	private blobs: Map<Id, DocumentBlob>;
+	private transformerFactory!: (workspaceRoot: string) => UriTransformer;
 
-	public constructor() {
+	public constructor(preferredVersion?: string) {
 		super();
 		this.version;
+		this.preferredVersion = preferredVersion;
 		this.blobs = new Map();
 	}
 
+	public static readVersionTags(file: string): VersionTag[] {
+		const db = new Sqlite(file, { readonly: true });
+		try {
+			const format = (db.prepare('Select * from format f').get() as any).format;
+			if (format !== 'blob') {
+				return [];
+			}
+			return db.prepare('Select tag, dateTime from versionTags Order by dateTime desc').all() as VersionTag[];
+		} catch (err) {
+			// Old DBs have no format. They are graph DBs.
+			return [];
+		} finally {
+			db.close();
+		}
+	}
+
 	public load(file: string, transformerFactory: (workspaceRoot: string) => UriTransformer): Promise<void> {
 		this.db = new Sqlite(file, { readonly: true });
 		this.readMetaData();
@@ -143,7 +220,7 @@ export class BlobStore extends Database {
 				'Where v.version = ?'
 		].join(' '));
 		this.findDocumentStmt = this.db.prepare([
-			'Select d.documentHash From documents d',
+			'Select d.documentHash as id, d.documentHash From documents d',
 				'Inner Join versions v On v.hash = d.documentHash',
 				'Where v.version = $version and d.uri = $uri'
 		].join(' '));
@@ -174,20 +251,282 @@ export class BlobStore extends Database {
 
 		].join(' '));
 		/* eslint-enable indent */
-		this.version = (this.db.prepare('Select * from versionTags Order by dateTime desc').get() as any).tag;
+		const versionTags = this.getVersionTags();
+		if (versionTags.length === 0) {
+			throw new Error('No version tag found.');
+		}
+		// Fall back to the newest version if the preferred one doesn't exist anymore.
+		const preferred = this.preferredVersion !== undefined ? versionTags.find(item => item.tag === this.preferredVersion) : undefined;
+		this.version = preferred !== undefined ? preferred.tag : versionTags[0].tag;
 		if (typeof this.version !== 'string') {
 			throw new Error('Version tag must be a string');
 		}
+		this.transformerFactory = transformerFactory;
 		this.initialize(transformerFactory);
 		return Promise.resolve();
 	}
 
+	public getVersion(): string {
+		return this.version;
+	}
+
+	public getVersionTags(): VersionTag[] {
+		return this.db.prepare('Select tag, dateTime from versionTags Order by dateTime desc').all() as VersionTag[];
+	}
+
+	public diffVersions(from: string, to: string): VersionDiff {
+		const versionTags = this.getVersionTags();
+		for (const tag of [from, to]) {
+			if (!versionTags.some(item => item.tag === tag)) {
+				throw new Error(`Version tag ${tag} doesn't exist.`);
+			}
+		}
+		const fromDocuments: Map<string, string> = new Map();
+		for (const item of this.allDocumentsStmt.all(from) as DocumentsResult[]) {
+			fromDocuments.set(item.uri, item.documentHash);
+		}
+		const result: VersionDiff = { added: [], removed: [], changed: [] };
+		for (const item of this.allDocumentsStmt.all(to) as DocumentsResult[]) {
+			const fromHash = fromDocuments.get(item.uri);
+			if (fromHash === undefined) {
+				result.added.push({ uri: this.fromDatabase(item.uri), toHash: item.documentHash });
+			} else {
+				fromDocuments.delete(item.uri);
+				if (fromHash !== item.documentHash) {
+					result.changed.push({ uri: this.fromDatabase(item.uri), fromHash, toHash: item.documentHash });
+				}
+			}
+		}
+		for (const [uri, fromHash] of fromDocuments) {
+			result.removed.push({ uri: this.fromDatabase(uri), fromHash });
+		}
+		return result;
+	}
+
+	public statistics(): DatabaseStatistics {
+		const documents: DocumentsResult[] = this.allDocumentsStmt.all(this.version) as DocumentsResult[];
+		// Result sets, monikers and results can be part of more than one blob.
+		const ids: Map<string, Set<string>> = new Map();
+		const add = (label: VertexLabels, values: LiteralMap<any> | undefined): string[] => {
+			let set = ids.get(label);
+			if (set === undefined) {
+				set = new Set();
+				ids.set(label, set);
+			}
+			const added: string[] = [];
+			if (values !== undefined) {
+				for (const key of Object.keys(values)) {
+					if (!set.has(key)) {
+						set.add(key);
+						added.push(key);
+					}
+				}
+			}
+			return added;
+		};
+		const monikers: Map<string, MonikerStatistics> = new Map();
+		let ranges = 0;
+		for (const document of documents) {
+			const blob = this.blobs.get(document.documentHash) ?? this.readBlob(document.documentHash);
+			ranges += Object.keys(blob.ranges).length;
+			add(VertexLabels.resultSet, blob.resultSets);
+			for (const kind of resultKinds) {
+				add(kind.vertexLabel, blob[kind.results]);
+			}
+			for (const key of add(VertexLabels.moniker, blob.monikers)) {
+				const moniker = blob.monikers![key];
+				Database.countMoniker(monikers, moniker.scheme, moniker.kind);
+			}
+		}
+		const labels: Map<string, number> = new Map([[VertexLabels.document as string, documents.length], [VertexLabels.range, ranges]]);
+		for (const [label, set] of ids) {
+			labels.set(label, set.size);
+		}
+		const result = this.createStatistics('blob', this.metaData, labels, Array.from(monikers.values()));
+		result.versionTag = this.version;
+		return result;
+	}
+
+	/**
+	 * Returns the current version as LSIF vertices and edges. Ranges, result sets,
+	 * monikers and results keep their ids. Documents, document results and edges
+	 * aren't stored with an id and get new ones. Results only reachable through the
+	 * moniker tables and the language id of documents aren't part of the blob format
+	 * and therefore missing.
+	 */
+	public *elements(): IterableIterator<Vertex | Edge> {
+		const version = this.version;
+		const documents: DocumentsResult[] = this.allDocumentsStmt.all(version) as DocumentsResult[];
+		const metaData: MetaData & { projectRoot?: string } = JSON.parse((this.db.prepare('Select value From meta').get() as MetaDataResult).value);
+		let nextId = typeof metaData.id === 'number' ? metaData.id + 1 : 1;
+		for (const document of documents) {
+			nextId = Math.max(nextId, BlobStore.maxId(this.readBlob(document.documentHash)) + 1);
+		}
+		const vertex = (label: VertexLabels, id: Id, properties?: object): Vertex => Object.assign({ id, type: ElementTypes.vertex, label }, properties) as Vertex;
+		const edge = (label: EdgeLabels, outV: Id, inV: Id | Id[], properties?: object): Edge => {
+			return Object.assign({ id: nextId++, type: ElementTypes.edge, label, outV }, Array.isArray(inV) ? { inVs: inV } : { inV }, properties) as Edge;
+		};
+
+		yield Object.assign({}, metaData, { projectRoot: undefined });
+		yield vertex(VertexLabels.source, nextId++, { workspaceRoot: metaData.projectRoot });
+		// Result sets, monikers and results can be part of more than one blob.
+		const emitted: Set<string> = new Set();
+		for (const document of documents) {
+			const blob = this.readBlob(document.documentHash);
+			const documentId = nextId++;
+			yield vertex(VertexLabels.document, documentId, { uri: document.uri, contents: Buffer.from(blob.contents).toString('base64') });
+			const rangeIds = Object.keys(blob.ranges);
+			for (const key of rangeIds) {
+				const range = blob.ranges[key];
+				yield vertex(VertexLabels.range, BlobStore.asId(key), { start: range.start, end: range.end, tag: range.tag });
+			}
+			const resultSetIds = blob.resultSets !== undefined ? Object.keys(blob.resultSets).filter(key => !emitted.has(key)) : [];
+			for (const key of resultSetIds) {
+				emitted.add(key);
+				yield vertex(VertexLabels.resultSet, BlobStore.asId(key));
+			}
+			if (blob.monikers !== undefined) {
+				for (const key of Object.keys(blob.monikers)) {
+					if (!emitted.has(key)) {
+						emitted.add(key);
+						const moniker = blob.monikers[key];
+						yield vertex(VertexLabels.moniker, BlobStore.asId(key), { scheme: moniker.scheme, identifier: moniker.identifier, kind: moniker.kind });
+					}
+				}
+			}
+			for (const kind of resultKinds) {
+				const results = blob[kind.results];
+				if (results === undefined) {
+					continue;
+				}
+				for (const key of Object.keys(results)) {
+					if (!emitted.has(key)) {
+						emitted.add(key);
+						yield vertex(kind.vertexLabel, BlobStore.asId(key), kind.property === 'hoverResult' ? { result: results[key] } : undefined);
+					}
+				}
+			}
+
+			if (rangeIds.length > 0) {
+				yield edge(EdgeLabels.contains, documentId, rangeIds.map(BlobStore.asId));
+			}
+			const links: [string, RangeData | ResultSetData][] = rangeIds.map(key => [key, blob.ranges[key]] as [string, RangeData]);
+			for (const key of resultSetIds) {
+				links.push([key, blob.resultSets![key]]);
+			}
+			for (const [key, data] of links) {
+				const outV = BlobStore.asId(key);
+				if (data.next !== undefined) {
+					yield edge(EdgeLabels.next, outV, data.next);
+				}
+				if (data.moniker !== undefined) {
+					yield edge(EdgeLabels.moniker, outV, data.moniker);
+				}
+				for (const kind of resultKinds) {
+					const inV = data[kind.property];
+					if (inV !== undefined) {
+						yield edge(kind.edgeLabel, outV, inV);
+					}
+				}
+			}
+			// The values of a result are split across the blobs of the documents they point into.
+			for (const kind of resultKinds) {
+				const results = blob[kind.results];
+				if (results === undefined || kind.property === 'hoverResult') {
+					continue;
+				}
+				for (const key of Object.keys(results)) {
+					const outV = BlobStore.asId(key);
+					if (kind.property === 'referenceResult') {
+						const data = results[key] as ReferenceResultData;
+						for (const [property, values] of [
+							[ItemEdgeProperties.declarations, data.declarations],
+							[ItemEdgeProperties.definitions, data.definitions],
+							[ItemEdgeProperties.references, data.references]
+						] as [ItemEdgeProperties, Id[] | undefined][]) {
+							if (values !== undefined && values.length > 0) {
+								yield edge(EdgeLabels.item, outV, values, { shard: documentId, property });
+							}
+						}
+					} else {
+						const values = (results[key] as { values: Id[] }).values;
+						if (values.length > 0) {
+							yield edge(EdgeLabels.item, outV, values, { shard: documentId });
+						}
+					}
+				}
+			}
+
+			const documentResults: [VertexLabels, EdgeLabels, any[] | undefined][] = [
+				[VertexLabels.foldingRangeResult, EdgeLabels.textDocument_foldingRange, blob.foldingRanges],
+				[VertexLabels.documentSymbolResult, EdgeLabels.textDocument_documentSymbol, blob.documentSymbols],
+				[VertexLabels.diagnosticResult, EdgeLabels.textDocument_diagnostic, blob.diagnostics],
+				[VertexLabels.documentLinkResult, EdgeLabels.textDocument_documentLink, blob.documentLinks]
+			];
+			for (const [vertexLabel, edgeLabel, result] of documentResults) {
+				if (result !== undefined) {
+					const resultId = nextId++;
+					yield vertex(vertexLabel, resultId, { result });
+					yield edge(edgeLabel, documentId, resultId);
+				}
+			}
+		}
+	}
+
+	private static maxId(blob: DocumentBlob): number {
+		let result = 0;
+		const maps: (LiteralMap<any> | undefined)[] = [blob.ranges, blob.resultSets, blob.monikers, blob.hovers, blob.declarationResults,
+			blob.definitionResults, blob.typeDefinitionResults, blob.referenceResults, blob.implementationResults];
+		for (const map of maps) {
+			if (map === undefined) {
+				continue;
+			}
+			for (const key of Object.keys(map)) {
+				const id = BlobStore.asId(key);
+				if (typeof id === 'number' && id > result) {
+					result = id;
+				}
+			}
+		}
+		return result;
+	}
+
+	/**
+	 * Object keys are always strings. Numeric ids are turned back into numbers.
+	 */
+	private static asId(key: string): Id {
+		return /^\d+$/.test(key) ? Number(key) : key;
+	}
+
+	public readDocumentByHash(documentHash: string): string | undefined {
+		const blobResult: BlobResult = this.findBlobStmt.get(documentHash) as BlobResult;
+		if (blobResult === undefined) {
+			return undefined;
+		}
+		return (JSON.parse(blobResult.content.toString('utf8')) as DocumentBlob).contents;
+	}
+
+	public setVersion(tag: string): void {
+		if (!this.getVersionTags().some(item => item.tag === tag)) {
+			throw new Error(`Version tag ${tag} doesn't exist.`);
+		}
+		this.version = tag;
+		this.blobs.clear();
+		this.initialize(this.transformerFactory);
+	}
+
 	private readMetaData(): void {
 		let result: MetaDataResult[] = this.db.prepare('Select * from meta').all() as MetaDataResult[];
 		if (result === undefined || result.length !== 1) {
 			throw new Error('Failed to read meta data record.');
 		}
-		let metaData: MetaData = JSON.parse(result[0].value);
+		let metaData: MetaData & { projectRoot?: string } = JSON.parse(result[0].value);
+		this.metaData = metaData;
+		// The blob format stores the workspace root in the meta data.
+		if (metaData.projectRoot === undefined) {
+			throw new Error('No project root found in meta data.');
+		}
+		this.workspaceRoot = URI.parse(metaData.projectRoot);
 	}
 
 	public getWorkspaceRoot(): URI {
@@ -209,13 +548,65 @@ export class BlobStore extends Database {
 	private getBlob(documentId: Id): DocumentBlob {
 		let result = this.blobs.get(documentId);
 		if (result === undefined) {
-			const blobResult: BlobResult = this.findBlobStmt.get(documentId) as BlobResult;
-			result = JSON.parse(blobResult.content.toString('utf8')) as DocumentBlob;
+			result = this.readBlob(documentId);
 			this.blobs.set(documentId, result);
 		}
 		return result;
 	}
 
+	private readBlob(documentId: Id): DocumentBlob {
+		const blobResult: BlobResult = this.findBlobStmt.get(documentId) as BlobResult;
+		return JSON.parse(blobResult.content.toString('utf8')) as DocumentBlob;
+	}
+
+	/**
+	 * The blob format doesn't store projects.
+	 */
+	protected getProjects(): ProjectOutline[] {
+		return [];
+	}
+
+	public listMonikers(scheme: string, kind: MonikerKind): MonikerLocation[] {
+		const documents: DocumentsResult[] = this.allDocumentsStmt.all(this.version) as DocumentsResult[];
+		const found: Map<string, { location?: lsp.Location; isDefinition: boolean }> = new Map();
+		for (const document of documents) {
+			const blob = this.blobs.get(document.documentHash) ?? this.readBlob(document.documentHash);
+			if (blob.monikers === undefined) {
+				continue;
+			}
+			const uri = this.fromDatabase(document.uri);
+			for (const key of Object.keys(blob.monikers)) {
+				const moniker = blob.monikers[key];
+				if (moniker.scheme === scheme && moniker.kind === kind && !found.has(moniker.identifier)) {
+					found.set(moniker.identifier, { isDefinition: false });
+				}
+			}
+			// Prefer the definition of the symbol over any range carrying the moniker.
+			for (const key of Object.keys(blob.ranges)) {
+				const range = blob.ranges[key];
+				const moniker = this.findMoniker(blob.resultSets, blob.monikers, range);
+				if (moniker === undefined || moniker.scheme !== scheme || moniker.kind !== kind) {
+					continue;
+				}
+				const value = found.get(moniker.identifier)!;
+				if (value.isDefinition) {
+					continue;
+				}
+				const definitionResult = blob.definitionResults !== undefined
+					? this.findResult(blob.resultSets, blob.definitionResults, range, 'definitionResult')
+					: undefined;
+				if (definitionResult !== undefined && definitionResult.values.length > 0) {
+					value.location = BlobStore.asLocations(blob.ranges, uri, [definitionResult.values[0]])[0];
+					value.isDefinition = true;
+				} else if (value.location === undefined) {
+					value.location = BlobStore.asLocations(blob.ranges, uri, [key])[0];
+				}
+			}
+		}
+		const identifiers = Array.from(found.keys()).sort().slice(0, Database.maxListedMonikers);
+		return identifiers.map(identifier => ({ identifier, location: found.get(identifier)!.location }));
+	}
+
 	protected findFile(uri: string): { id: Id, hash: string | undefined }| undefined {
 		let result: DocumentResult = this.findDocumentStmt.get({ version: this.version, uri: uri }) as DocumentResult;
 		return result !== undefined ? { id: result.id, hash: result.documentHash} : undefined;
@@ -227,11 +618,117 @@ export class BlobStore extends Database {
 	}
 
 	public foldingRanges(uri: string): lsp.FoldingRange[] | undefined {
-		return undefined;
+		const documentId = this.findFile(this.toDatabase(uri));
+		if (documentId === undefined) {
+			return undefined;
+		}
+		return this.getBlob(documentId.id).foldingRanges;
 	}
 
 	public documentSymbols(uri: string): lsp.DocumentSymbol[] | undefined {
-		return undefined;
+		const documentId = this.findFile(this.toDatabase(uri));
+		if (documentId === undefined) {
+			return undefined;
+		}
+		const blob = this.getBlob(documentId.id);
+		if (blob.documentSymbols === undefined || blob.documentSymbols.length === 0) {
+			return undefined;
+		}
+		if (lsp.DocumentSymbol.is(blob.documentSymbols[0])) {
+			return blob.documentSymbols as lsp.DocumentSymbol[];
+		}
+		let result: lsp.DocumentSymbol[] = [];
+		for (let item of (blob.documentSymbols as RangeBasedDocumentSymbol[])) {
+			let converted = this.toDocumentSymbol(blob.ranges, item);
+			if (converted !== undefined) {
+				result.push(converted);
+			}
+		}
+		return result;
+	}
+
+	public workspaceSymbols(query: string): lsp.SymbolInformation[] {
+		// An empty query would list every symbol of the database.
+		if (query.length === 0) {
+			return [];
+		}
+		const result: lsp.SymbolInformation[] = [];
+		const documents: DocumentsResult[] = this.allDocumentsStmt.all(this.version) as DocumentsResult[];
+		for (const document of documents) {
+			// Don't cache the blobs here. A query touches every document of the version.
+			const blob = this.blobs.get(document.documentHash) ?? this.readBlob(document.documentHash);
+			const uri = this.fromDatabase(document.uri);
+			if (blob.documentSymbols !== undefined && blob.documentSymbols.length > 0) {
+				let symbols: lsp.DocumentSymbol[] = [];
+				if (lsp.DocumentSymbol.is(blob.documentSymbols[0])) {
+					symbols = blob.documentSymbols as lsp.DocumentSymbol[];
+				} else {
+					for (let item of (blob.documentSymbols as RangeBasedDocumentSymbol[])) {
+						let converted = this.toDocumentSymbol(blob.ranges, item);
+						if (converted !== undefined) {
+							symbols.push(converted);
+						}
+					}
+				}
+				this.collectSymbols(result, query, uri, symbols);
+				continue;
+			}
+			// No document symbols. Use the tags of the document's ranges instead.
+			for (const key of Object.keys(blob.ranges)) {
+				const range = blob.ranges[key];
+				const tag = range.tag;
+				if (tag === undefined || !(tag.type === 'declaration' || tag.type === 'definition') || !Database.matchesQuery(query, tag.text)) {
+					continue;
+				}
+				result.push(lsp.SymbolInformation.create(tag.text, tag.kind, lsp.Range.create(range.start.line, range.start.character, range.end.line, range.end.character), uri));
+			}
+		}
+		return result;
+	}
+
+	private toDocumentSymbol(ranges: LiteralMap<RangeData>, value: RangeBasedDocumentSymbol): lsp.DocumentSymbol | undefined {
+		let range = ranges[value.id];
+		if (range === undefined) {
+			return undefined;
+		}
+		let tag = range.tag;
+		if (tag === undefined || !(tag.type === 'declaration' || tag.type === 'definition')) {
+			return undefined;
+		}
+		let result: lsp.DocumentSymbol = lsp.DocumentSymbol.create(
+			tag.text, tag.detail || '', tag.kind,
+			tag.fullRange, lsp.Range.create(range.start.line, range.start.character, range.end.line, range.end.character)
+		);
+		if (value.children && value.children.length > 0) {
+			result.children = [];
+			for (let child of value.children) {
+				let converted = this.toDocumentSymbol(ranges, child);
+				if (converted !== undefined) {
+					result.children.push(converted);
+				}
+			}
+		}
+		return result;
+	}
+
+	public diagnostics(uri: string): lsp.Diagnostic[] | undefined {
+		const documentId = this.findFile(this.toDatabase(uri));
+		if (documentId === undefined) {
+			return undefined;
+		}
+		return this.getBlob(documentId.id).diagnostics;
+	}
+
+	public documentLinks(uri: string): lsp.DocumentLink[] | undefined {
+		const documentId = this.findFile(this.toDatabase(uri));
+		if (documentId === undefined) {
+			return undefined;
+		}
+		const blob = this.getBlob(documentId.id);
+		if (blob.documentLinks === undefined) {
+			return undefined;
+		}
+		return blob.documentLinks.map(item => this.asDocumentLink(item));
 	}
 
 	public hover(uri: string, position: lsp.Position): lsp.Hover | undefined {
@@ -275,7 +772,7 @@ export class BlobStore extends Database {
 		}
 	}
 
-	private findDeclarationsInDB(moniker: MonikerData): lsp.Location[] | undefined {
+	private findDeclarationsInDB(moniker: MonikerKey): lsp.Location[] | undefined {
 		let qResult: DeclsResult[] = this.findDeclsStmt.all({ version: this.version, scheme: moniker.scheme, identifier: moniker.identifier }) as DeclsResult[];
 		if (qResult === undefined || qResult.length === 0) {
 			return undefined;
@@ -302,7 +799,7 @@ export class BlobStore extends Database {
 		}
 	}
 
-	private findDefinitionsInDB(moniker: MonikerData): lsp.Location[] | undefined {
+	private findDefinitionsInDB(moniker: MonikerKey): lsp.Location[] | undefined {
 		let qResult: DefsResult[] = this.findDefsStmt.all({ version: this.version, scheme: moniker.scheme, identifier: moniker.identifier }) as DefsResult[];
 		if (qResult === undefined || qResult.length === 0) {
 			return undefined;
@@ -312,6 +809,54 @@ export class BlobStore extends Database {
 		});
 	}
 
+	public typeDefinitions(uri: string, position: lsp.Position): lsp.Location | lsp.Location[] | undefined {
+		const { range, blob } = this.findRangeFromPosition(this.toDatabase(uri), position);
+		if (range === undefined || blob === undefined) {
+			return undefined;
+		}
+		let resultData = blob.typeDefinitionResults !== undefined
+			? this.findResult(blob.resultSets, blob.typeDefinitionResults, range, 'typeDefinitionResult')
+			: undefined;
+		if (resultData === undefined) {
+			const moniker = this.findMoniker(blob.resultSets, blob.monikers, range);
+			if (moniker === undefined) {
+				return undefined;
+			}
+			return this.findTypeDefinitionsInDB(moniker);
+		} else {
+			return BlobStore.asLocations(blob.ranges, uri, resultData.values);
+		}
+	}
+
+	private findTypeDefinitionsInDB(moniker: MonikerData): lsp.Location[] | undefined {
+		return this.findResultsAtDefinitionsInDB(moniker, blob => blob.typeDefinitionResults, 'typeDefinitionResult');
+	}
+
+	private findResultsAtDefinitionsInDB<T extends { values: Id[] }>(moniker: MonikerData, getResults: (blob: DocumentBlob) => LiteralMap<T> | undefined, property: 'typeDefinitionResult' | 'implementationResult'): lsp.Location[] | undefined {
+		// There are no tables for these results. So we look up the definitions of the moniker
+		// and use the result stored in the blob of the defining document.
+		let qResult: DefsResult[] = this.findDefsStmt.all({ version: this.version, scheme: moniker.scheme, identifier: moniker.identifier }) as DefsResult[];
+		if (qResult === undefined || qResult.length === 0) {
+			return undefined;
+		}
+		let result: lsp.Location[] = [];
+		for (let item of qResult) {
+			const { range, blob } = this.findRangeFromPosition(item.uri, lsp.Position.create(item.startLine, item.startCharacter));
+			if (range === undefined || blob === undefined) {
+				continue;
+			}
+			const results = getResults(blob);
+			if (results === undefined) {
+				continue;
+			}
+			const resultData = this.findResult(blob.resultSets, results, range, property);
+			if (resultData !== undefined) {
+				result.push(...BlobStore.asLocations(blob.ranges, this.fromDatabase(item.uri), resultData.values));
+			}
+		}
+		return result.length > 0 ? result : undefined;
+	}
+
 	public references(uri: string, position: lsp.Position, context: lsp.ReferenceContext): lsp.Location[] | undefined {
 		const { range, blob } = this.findRangeFromPosition(this.toDatabase(uri), position);
 		if (range === undefined || blob === undefined || blob.referenceResults === undefined) {
@@ -339,7 +884,63 @@ export class BlobStore extends Database {
 		}
 	}
 
-	private findReferencesInDB(moniker: MonikerData, context: lsp.ReferenceContext): lsp.Location[] | undefined {
+	public implementations(uri: string, position: lsp.Position): lsp.Location[] | undefined {
+		const { range, blob } = this.findRangeFromPosition(this.toDatabase(uri), position);
+		if (range === undefined || blob === undefined) {
+			return undefined;
+		}
+		let resultData = blob.implementationResults !== undefined
+			? this.findResult(blob.resultSets, blob.implementationResults, range, 'implementationResult')
+			: undefined;
+		if (resultData === undefined) {
+			const moniker = this.findMoniker(blob.resultSets, blob.monikers, range);
+			if (moniker === undefined) {
+				return undefined;
+			}
+			return this.findResultsAtDefinitionsInDB(moniker, blob => blob.implementationResults, 'implementationResult');
+		} else {
+			return BlobStore.asLocations(blob.ranges, uri, resultData.values);
+		}
+	}
+
+	/**
+	 * Blobs store the most specific moniker of a range only and no package information.
+	 */
+	public monikers(uri: string, position: lsp.Position): MonikerInfo[] {
+		const { range, blob } = this.findRangeFromPosition(this.toDatabase(uri), position);
+		if (range === undefined || blob === undefined) {
+			return [];
+		}
+		const moniker = this.findMoniker(blob.resultSets, blob.monikers, range);
+		return moniker !== undefined ? [{ scheme: moniker.scheme, identifier: moniker.identifier, kind: moniker.kind }] : [];
+	}
+
+	/**
+	 * The blob format doesn't store package information. The database therefore never
+	 * matches a specific package version. It is only asked when monikers are matched
+	 * regardless of the version and its results can then belong to any version.
+	 */
+	public findByMoniker(scheme: string, identifier: string, packageInformation?: PackageInfo): MonikerResults | undefined {
+		if (packageInformation !== undefined) {
+			return undefined;
+		}
+		const moniker: MonikerKey = { scheme, identifier };
+		const result: MonikerResults = {
+			declarations: this.findDeclarationsInDB(moniker) ?? [],
+			definitions: this.findDefinitionsInDB(moniker) ?? [],
+			references: this.findReferencesInDB(moniker, { includeDeclaration: false }) ?? []
+		};
+		const hoverResult = this.findHoverStmt.get({ version: this.version, scheme, identifier }) as BlobResult | undefined;
+		if (hoverResult !== undefined) {
+			result.hover = { contents: (JSON.parse(hoverResult.content.toString()) as lsp.Hover).contents };
+		}
+		if (result.hover === undefined && result.declarations.length === 0 && result.definitions.length === 0 && result.references.length === 0) {
+			return undefined;
+		}
+		return result;
+	}
+
+	private findReferencesInDB(moniker: MonikerKey, context: lsp.ReferenceContext): lsp.Location[] | undefined {
 		let qResult: RefsResult[] = this.findRefsStmt.all({ version: this.version, scheme: moniker.scheme, identifier: moniker.identifier }) as RefsResult[];
 		if (qResult === undefined || qResult.length === 0) {
 			return undefined;
@@ -353,6 +954,82 @@ export class BlobStore extends Database {
 		return result;
 	}
 
+	public inspect(uri: string, position: lsp.Position): InspectedElement[] | undefined {
+		const documentId = this.findFile(this.toDatabase(uri));
+		if (documentId === undefined) {
+			return undefined;
+		}
+		const blob = this.getBlob(documentId.id);
+		const ids = Object.keys(blob.ranges).filter(key => BlobStore.containsPosition(blob.ranges[key], position));
+		if (ids.length === 0) {
+			return undefined;
+		}
+		// Innermost range first.
+		ids.sort((a, b) => BlobStore.containsRange(blob.ranges[a], blob.ranges[b]) ? 1 : BlobStore.containsRange(blob.ranges[b], blob.ranges[a]) ? -1 : 0);
+		return ids.map(id => this.inspectRange(blob, uri, BlobStore.asId(id), undefined));
+	}
+
+	private inspectRange(blob: DocumentBlob, uri: string, id: Id, edge: string | undefined): InspectedElement {
+		const range = blob.ranges[id];
+		const result: InspectedElement = {
+			id, label: VertexLabels.range, edge, description: Database.describeVertex(VertexLabels.range, range), properties: range,
+			location: lsp.Location.create(uri, lsp.Range.create(range.start.line, range.start.character, range.end.line, range.end.character))
+		};
+		// Ranges reached over an edge are the targets of a result. Their own edges
+		// belong to a different symbol.
+		if (edge === undefined) {
+			result.children = this.inspectResultSetData(blob, uri, range, new Set());
+		}
+		return result;
+	}
+
+	/**
+	 * Results which aren't part of the blob are looked up by moniker and aren't listed.
+	 */
+	private inspectResultSetData(blob: DocumentBlob, uri: string, data: RangeData | ResultSetData, path: Set<Id>): InspectedElement[] {
+		const result: InspectedElement[] = [];
+		if (data.next !== undefined && blob.resultSets !== undefined && blob.resultSets[data.next] !== undefined && !path.has(data.next)) {
+			const resultSet = blob.resultSets[data.next];
+			path.add(data.next);
+			result.push({
+				id: data.next, label: VertexLabels.resultSet, edge: EdgeLabels.next, properties: resultSet,
+				children: this.inspectResultSetData(blob, uri, resultSet, path)
+			});
+			path.delete(data.next);
+		}
+		if (data.moniker !== undefined && blob.monikers !== undefined && blob.monikers[data.moniker] !== undefined) {
+			const moniker = blob.monikers[data.moniker];
+			result.push({ id: data.moniker, label: VertexLabels.moniker, edge: EdgeLabels.moniker, description: Database.describeVertex(VertexLabels.moniker, moniker), properties: moniker });
+		}
+		for (const kind of resultKinds) {
+			const id = data[kind.property];
+			const results: LiteralMap<any> | undefined = blob[kind.results];
+			if (id === undefined || results === undefined || results[id] === undefined) {
+				continue;
+			}
+			const value = results[id];
+			const element: InspectedElement = { id, label: kind.vertexLabel, edge: kind.edgeLabel, properties: value };
+			const items: { property?: ItemEdgeProperties; id: Id }[] = [];
+			if (kind.vertexLabel === VertexLabels.referenceResult) {
+				for (const property of [ItemEdgeProperties.declarations, ItemEdgeProperties.definitions, ItemEdgeProperties.references]) {
+					const values: Id[] | undefined = (value as ReferenceResultData)[property as keyof ReferenceResultData];
+					if (values !== undefined) {
+						items.push(...values.map(id => ({ property, id })));
+					}
+				}
+			} else if (kind.vertexLabel !== VertexLabels.hoverResult) {
+				items.push(...(value as { values: Id[] }).values.map(id => ({ id })));
+			}
+			if (items.length > 0) {
+				element.children = Database.inspectItems(items, (item) => {
+					return this.inspectRange(blob, uri, item.id, item.property !== undefined ? `${EdgeLabels.item} (${item.property})` : EdgeLabels.item);
+				});
+			}
+			result.push(element);
+		}
+		return result;
+	}
+
 	private findResult<T>(resultSets: LiteralMap<ResultSetData> | undefined, map: LiteralMap<T>, data: RangeData | ResultSetData, property: keyof (RangeData | ResultSetData)): T | undefined {
 		let current: RangeData | ResultSetData | undefined = data;
 		while (current !== undefined) {
@@ -384,27 +1061,99 @@ export class BlobStore extends Database {
 		return result !== undefined ? monikers[result] : undefined;
 	}
 
-	private findRangeFromPosition(uri: string, position: lsp.Position): { range: RangeData | undefined, blob: DocumentBlob | undefined } {
+	private findRangeFromPosition(uri: string, position: lsp.Position): { id: string | undefined, range: RangeData | undefined, blob: DocumentBlob | undefined } {
 		const documentId = this.findFile(uri);
 		if (documentId === undefined) {
-			return { range: undefined, blob: undefined };
+			return { id: undefined, range: undefined, blob: undefined };
 		}
  		const blob = this.getBlob(documentId.id);
 		let candidate: RangeData | undefined;
+		let candidateId: string | undefined;
 		for (let key of Object.keys(blob.ranges)) {
 			let range = blob.ranges[key];
 			if (BlobStore.containsPosition(range, position)) {
 				if (!candidate) {
 					candidate = range;
+					candidateId = key;
 				} else {
 					if (BlobStore.containsRange(candidate, range)) {
 						candidate = range;
+						candidateId = key;
 					}
 				}
 			}
 
 		}
-		return { range: candidate, blob};
+		return { id: candidateId, range: candidate, blob};
+	}
+
+	protected findRangesInRange(uri: string, range: lsp.Range): lsp.Range[] {
+		const documentId = this.findFile(this.toDatabase(uri));
+		if (documentId === undefined) {
+			return [];
+		}
+		const blob = this.getBlob(documentId.id);
+		const result: lsp.Range[] = [];
+		for (const key of Object.keys(blob.ranges)) {
+			const item = blob.ranges[key];
+			if (BlobStore.containsRange(range, item)) {
+				result.push(lsp.Range.create(item.start.line, item.start.character, item.end.line, item.end.character));
+			}
+		}
+		return result;
+	}
+
+	protected findDocumentRanges(uri: string): RangeData[] | undefined {
+		const documentId = this.findFile(this.toDatabase(uri));
+		if (documentId === undefined) {
+			return undefined;
+		}
+		const blob = this.getBlob(documentId.id);
+		return Object.keys(blob.ranges).map(key => blob.ranges[key]);
+	}
+
+	protected findDocumentDefinitions(uri: string, keys: Set<string>): Map<string, lsp.Location[]> {
+		const result: Map<string, lsp.Location[]> = new Map();
+		const documentId = this.findFile(this.toDatabase(uri));
+		if (documentId === undefined) {
+			return result;
+		}
+		const blob = this.getBlob(documentId.id);
+		if (blob.definitionResults === undefined) {
+			return result;
+		}
+		// Ranges sharing a result set share the definition result or moniker.
+		const results: Map<DefinitionResultData, lsp.Location[]> = new Map();
+		const monikers: Map<MonikerData, lsp.Location[] | undefined> = new Map();
+		for (const id of Object.keys(blob.ranges)) {
+			const range = blob.ranges[id];
+			const key = Database.makeRangeKey(range);
+			if (!keys.has(key)) {
+				continue;
+			}
+			let locations: lsp.Location[] | undefined;
+			const resultData = this.findResult(blob.resultSets, blob.definitionResults, range, 'definitionResult');
+			if (resultData !== undefined) {
+				locations = results.get(resultData);
+				if (locations === undefined) {
+					locations = BlobStore.asLocations(blob.ranges, uri, resultData.values);
+					results.set(resultData, locations);
+				}
+			} else {
+				const moniker = this.findMoniker(blob.resultSets, blob.monikers, range);
+				if (moniker === undefined) {
+					continue;
+				}
+				if (!monikers.has(moniker)) {
+					monikers.set(moniker, this.findDefinitionsInDB(moniker));
+				}
+				locations = monikers.get(moniker);
+			}
+			if (locations !== undefined) {
+				result.set(key, locations);
+			}
+		}
+		return result;
 	}
 
 	private static asLocations(ranges: LiteralMap<RangeData>, uri: string, ids: Id[]): lsp.Location[] {
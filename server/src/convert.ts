@@ -0,0 +1,32 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+// Usage: node convert.js <graph|blob> <dump.lsif> <database.db> [versionTag]
+
+import { importDump, ImportFormat } from './importer';
+
+const [format, input, output, tag] = process.argv.slice(2);
+if ((format !== 'graph' && format !== 'blob') || input === undefined || output === undefined) {
+	console.error('Usage: node convert.js <graph|blob> <dump.lsif> <database.db> [versionTag]');
+	process.exit(1);
+}
+
+let percentage = 0;
+importDump(input, output, {
+	format: format as ImportFormat,
+	tag,
+	progress: (bytesRead, totalBytes) => {
+		const value = totalBytes > 0 ? Math.floor(bytesRead * 100 / totalBytes) : 100;
+		if (value >= percentage + 10) {
+			percentage = value;
+			console.log(`${percentage}%`);
+		}
+	}
+}).then((summary) => {
+	console.log(JSON.stringify(summary, undefined, 4));
+}, (error) => {
+	console.error(error.message);
+	process.exit(1);
+});
@@ -2,9 +2,11 @@
  * Copyright (c) Microsoft Corporation. All rights reserved.
  * Licensed under the MIT License. See License.txt in the project root for license information.
  * ------------------------------------------------------------------------------------------ */
+import * as crypto from 'crypto';
+
 import { URI } from 'vscode-uri';
 import * as lsp from 'vscode-languageserver';
-import { Range, Id } from 'lsif-protocol';
+import { Range, Id, Vertex, Edge, VertexLabels, Moniker, MonikerKind, PackageInformation } from 'lsif-protocol';
 
 import { FileType, FileSystem, DocumentInfo, FileStat } from './files';
 
@@ -18,6 +20,193 @@ export const noopTransformer: UriTransformer = {
 	fromDatabase: uri => uri
 };
 
+export interface ToolInfo {
+	name: string;
+	version?: string;
+	args?: string[];
+}
+
+export interface MonikerStatistics {
+	scheme: string;
+	kind?: string;
+	count: number;
+}
+
+export interface DatabaseStatistics {
+	format: 'json' | 'graph' | 'blob';
+	protocolVersion?: string;
+	toolInfo?: ToolInfo;
+	workspaceRoot: string;
+
+	/**
+	 * The version tag browsed. Only set for blob databases.
+	 */
+	versionTag?: string;
+	documents: number;
+	ranges: number;
+	resultSets: number;
+	monikers: MonikerStatistics[];
+	results: {
+		hover: number;
+		declaration: number;
+		definition: number;
+		typeDefinition: number;
+		references: number;
+		implementation: number;
+	};
+}
+
+export interface ProjectOutline {
+	id: Id;
+	name: string;
+	documents: string[];
+}
+
+export interface DatabaseOutline {
+	projects: ProjectOutline[];
+
+	/**
+	 * Documents not contained in any project.
+	 */
+	documents: string[];
+
+	/**
+	 * Documents outside of the workspace root. The file explorer doesn't list them.
+	 */
+	externalDocuments: string[];
+
+	/**
+	 * Import and export monikers by scheme.
+	 */
+	monikers: MonikerStatistics[];
+}
+
+export interface MonikerLocation {
+	identifier: string;
+
+	/**
+	 * The definition of the moniker's symbol or, if the database has none, a range
+	 * the moniker is attached to.
+	 */
+	location?: lsp.Location;
+}
+
+export type PackageInfo = Pick<PackageInformation, 'name' | 'manager' | 'version'>;
+
+export interface MonikerInfo extends Pick<Moniker, 'scheme' | 'identifier' | 'kind'> {
+	/**
+	 * The package the moniker belongs to as recorded by a `packageInformation` edge.
+	 */
+	packageInformation?: PackageInfo;
+}
+
+/**
+ * The results a database stores for the symbols of a moniker. Used to follow
+ * import and export monikers from one database into another.
+ */
+export interface MonikerResults {
+	hover?: lsp.Hover;
+	declarations: lsp.Location[];
+	definitions: lsp.Location[];
+
+	/**
+	 * The references without declarations and definitions.
+	 */
+	references: lsp.Location[];
+}
+
+/**
+ * A vertex of the LSIF graph as shown by the inspector. The children are the vertices
+ * reached over the vertex's outgoing edges.
+ */
+export interface InspectedElement {
+	/**
+	 * The id of the vertex. Not set for elements summarizing omitted children.
+	 */
+	id?: Id;
+	label: string;
+
+	/**
+	 * The label of the edge leading to this vertex. Item edges include their property.
+	 */
+	edge?: string;
+	description?: string;
+
+	/**
+	 * The location of range vertices.
+	 */
+	location?: lsp.Location;
+
+	/**
+	 * The properties of the vertex as stored in the database.
+	 */
+	properties?: object;
+	children?: InspectedElement[];
+}
+
+/**
+ * A range of a document classified by the kind of symbol it refers to.
+ */
+export interface SemanticToken {
+	range: lsp.Range;
+	type: lsp.SemanticTokenTypes;
+	modifiers: lsp.SemanticTokenModifiers[];
+}
+
+namespace Ranges {
+	/**
+	 * Test if `otherRange` is in `range`. If the ranges are equal, will return true.
+	 */
+	export function contains(range: lsp.Range, otherRange: lsp.Range): boolean {
+		if (otherRange.start.line < range.start.line || otherRange.end.line > range.end.line) {
+			return false;
+		}
+		if (otherRange.start.line === range.start.line && otherRange.start.character < range.start.character) {
+			return false;
+		}
+		if (otherRange.end.line === range.end.line && otherRange.end.character > range.end.character) {
+			return false;
+		}
+		return true;
+	}
+
+	export function equals(a: lsp.Range, b: lsp.Range): boolean {
+		return a.start.line === b.start.line && a.start.character === b.start.character && a.end.line === b.end.line && a.end.character === b.end.character;
+	}
+}
+
+const callableKinds: Set<lsp.SymbolKind> = new Set([lsp.SymbolKind.Function, lsp.SymbolKind.Method, lsp.SymbolKind.Constructor]);
+
+const semanticTokenTypes: Map<lsp.SymbolKind, lsp.SemanticTokenTypes> = new Map([
+	[lsp.SymbolKind.Module, lsp.SemanticTokenTypes.namespace],
+	[lsp.SymbolKind.Namespace, lsp.SemanticTokenTypes.namespace],
+	[lsp.SymbolKind.Package, lsp.SemanticTokenTypes.namespace],
+	[lsp.SymbolKind.Class, lsp.SemanticTokenTypes.class],
+	[lsp.SymbolKind.Constructor, lsp.SemanticTokenTypes.class],
+	[lsp.SymbolKind.Method, lsp.SemanticTokenTypes.method],
+	[lsp.SymbolKind.Property, lsp.SemanticTokenTypes.property],
+	[lsp.SymbolKind.Field, lsp.SemanticTokenTypes.property],
+	[lsp.SymbolKind.Key, lsp.SemanticTokenTypes.property],
+	[lsp.SymbolKind.Enum, lsp.SemanticTokenTypes.enum],
+	[lsp.SymbolKind.EnumMember, lsp.SemanticTokenTypes.enumMember],
+	[lsp.SymbolKind.Interface, lsp.SemanticTokenTypes.interface],
+	[lsp.SymbolKind.Struct, lsp.SemanticTokenTypes.struct],
+	[lsp.SymbolKind.Function, lsp.SemanticTokenTypes.function],
+	[lsp.SymbolKind.Variable, lsp.SemanticTokenTypes.variable],
+	[lsp.SymbolKind.Constant, lsp.SemanticTokenTypes.variable],
+	[lsp.SymbolKind.Event, lsp.SemanticTokenTypes.event],
+	[lsp.SymbolKind.Operator, lsp.SemanticTokenTypes.operator],
+	[lsp.SymbolKind.TypeParameter, lsp.SemanticTokenTypes.typeParameter]
+]);
+
+/**
+ * The token types and modifiers `Database.semanticTokens` produces.
+ */
+export const semanticTokensLegend: lsp.SemanticTokensLegend = {
+	tokenTypes: Array.from(new Set(semanticTokenTypes.values())),
+	tokenModifiers: [lsp.SemanticTokenModifiers.declaration, lsp.SemanticTokenModifiers.readonly]
+};
+
 export abstract class Database {
 
 	private fileSystem!: FileSystem;
@@ -38,8 +227,95 @@ export abstract class Database {
 
 	public abstract getWorkspaceRoot(): URI;
 
+	/**
+	 * Returns the content of the database as LSIF vertices and edges. Vertices are
+	 * returned before the edges referencing them. Returns `undefined` if the store
+	 * can't be exported.
+	 */
+	public elements(): IterableIterator<Vertex | Edge> | undefined {
+		return undefined;
+	}
+
 	protected abstract getDocumentInfos(): DocumentInfo[];
 
+	public abstract statistics(): DatabaseStatistics;
+
+	protected static countMoniker(monikers: Map<string, MonikerStatistics>, scheme: string, kind: string | undefined): void {
+		const key = `${scheme}|${kind}`;
+		const value = monikers.get(key);
+		if (value === undefined) {
+			monikers.set(key, { scheme, kind, count: 1 });
+		} else {
+			value.count++;
+		}
+	}
+
+	/**
+	 * Creates the statistics from the number of vertices per label.
+	 */
+	protected createStatistics(format: DatabaseStatistics['format'], metaData: { version?: string; toolInfo?: ToolInfo } | undefined, labels: Map<string, number>, monikers: MonikerStatistics[]): DatabaseStatistics {
+		const count = (label: VertexLabels): number => labels.get(label) || 0;
+		monikers.sort((a, b) => a.scheme !== b.scheme ? (a.scheme < b.scheme ? -1 : 1) : b.count - a.count);
+		return {
+			format,
+			protocolVersion: metaData !== undefined ? metaData.version : undefined,
+			toolInfo: metaData !== undefined ? metaData.toolInfo : undefined,
+			workspaceRoot: this.getWorkspaceRoot().toString(true),
+			documents: count(VertexLabels.document),
+			ranges: count(VertexLabels.range),
+			resultSets: count(VertexLabels.resultSet),
+			monikers,
+			results: {
+				hover: count(VertexLabels.hoverResult),
+				declaration: count(VertexLabels.declarationResult),
+				definition: count(VertexLabels.definitionResult),
+				typeDefinition: count(VertexLabels.typeDefinitionResult),
+				references: count(VertexLabels.referenceResult),
+				implementation: count(VertexLabels.implementationResult)
+			}
+		};
+	}
+
+	public outline(): DatabaseOutline {
+		const projects = this.getProjects();
+		const contained: Set<string> = new Set();
+		for (const project of projects) {
+			for (const uri of project.documents) {
+				contained.add(uri);
+			}
+		}
+		// External documents are listed on their own.
+		const external = this.fileSystem.getFilesOutsideWorkspaceRoot();
+		for (const uri of external) {
+			contained.add(uri);
+		}
+		const compare = (a: string, b: string): number => a < b ? -1 : a > b ? 1 : 0;
+		for (const project of projects) {
+			project.documents = project.documents.map(uri => this.fromDatabase(uri)).sort(compare);
+		}
+		return {
+			projects,
+			documents: this.getDocumentInfos().map(info => info.uri).filter(uri => !contained.has(uri)).map(uri => this.fromDatabase(uri)).sort(compare),
+			externalDocuments: external.map(uri => this.fromDatabase(uri)).sort(compare),
+			monikers: this.statistics().monikers.filter(item => item.kind === MonikerKind.import || item.kind === MonikerKind.export)
+		};
+	}
+
+	/**
+	 * Returns the projects with the database URIs of their documents.
+	 */
+	protected abstract getProjects(): ProjectOutline[];
+
+	/**
+	 * The maximal number of monikers returned by `listMonikers`.
+	 */
+	protected static readonly maxListedMonikers = 1000;
+
+	/**
+	 * Lists the monikers of a scheme and kind sorted by identifier.
+	 */
+	public abstract listMonikers(scheme: string, kind: MonikerKind): MonikerLocation[];
+
 	public stat(uri: string): FileStat | null {
 		let transformed = this.uriTransformer.toDatabase(uri);
 		let result = this.fileSystem.stat(transformed);
@@ -73,6 +349,41 @@ export abstract class Database {
 		return result;
 	}
 
+	/**
+	 * Returns the indexed content of a document or `undefined` if the dump doesn't
+	 * contain the document or its content. Unlike `readFileContent` this never returns
+	 * a placeholder.
+	 */
+	public readIndexedContent(uri: string): Buffer | undefined {
+		const content = this.readFileContent(uri);
+		if (content === null || content.length === 0 || content === Database.noContent) {
+			return undefined;
+		}
+		return Buffer.from(content, 'base64');
+	}
+
+	/**
+	 * The content shown for documents whose content isn't part of the dump.
+	 */
+	protected static readonly noContent = 'No content provided.';
+
+	/**
+	 * Returns the md5 hash (base64) of the indexed content of a document. It can be
+	 * compared with the hash of the document's content on disk. Documents without
+	 * indexed content have no hash.
+	 */
+	public documentHash(uri: string): string | undefined {
+		const content = this.readIndexedContent(uri);
+		return content !== undefined ? Database.hash(content) : undefined;
+	}
+
+	/**
+	 * Computes the hash of a document content the way `documentHash` does.
+	 */
+	public static hash(value: Buffer): string {
+		return crypto.createHash('md5').update(value).digest('base64');
+	}
+
 	protected abstract findFile(uri: string):{ id: Id; hash: string | undefined; } | undefined;
 
 	protected abstract fileContent( info: { id: Id; hash: string | undefined; } ) : string | undefined;
@@ -81,15 +392,93 @@ export abstract class Database {
 
 	public abstract documentSymbols(uri: string): lsp.DocumentSymbol[] | undefined;
 
+	public abstract diagnostics(uri: string): lsp.Diagnostic[] | undefined;
+
+	public abstract documentLinks(uri: string): lsp.DocumentLink[] | undefined;
+
+	public allDiagnostics(): { uri: string, diagnostics: lsp.Diagnostic[] }[] {
+		const result: { uri: string, diagnostics: lsp.Diagnostic[] }[] = [];
+		for (const info of this.getDocumentInfos()) {
+			const uri = this.fromDatabase(info.uri);
+			const diagnostics = this.diagnostics(uri);
+			if (diagnostics !== undefined && diagnostics.length > 0) {
+				result.push({ uri, diagnostics });
+			}
+		}
+		return result;
+	}
+
+	public abstract workspaceSymbols(query: string): lsp.SymbolInformation[];
+
 	public abstract hover(uri: string, position: lsp.Position): lsp.Hover | undefined;
 
 	public abstract declarations(uri: string, position: lsp.Position): lsp.Location | lsp.Location[] | undefined;
 
 	public abstract definitions(uri: string, position: lsp.Position): lsp.Location | lsp.Location[] | undefined;
 
+	public abstract typeDefinitions(uri: string, position: lsp.Position): lsp.Location | lsp.Location[] | undefined;
+
 	public abstract references(uri: string, position: lsp.Position, context: lsp.ReferenceContext): lsp.Location[] | undefined;
 
-	protected asDocumentSymbol(range: Range): lsp.DocumentSymbol | undefined {
+	public abstract implementations(uri: string, position: lsp.Position): lsp.Location[] | undefined;
+
+	/**
+	 * Returns the monikers of the symbol at the position including the monikers attached to them.
+	 */
+	public abstract monikers(uri: string, position: lsp.Position): MonikerInfo[];
+
+	/**
+	 * Returns the results of the symbols carrying the moniker or `undefined` if the
+	 * database doesn't know the moniker. If `packageInformation` is given only monikers
+	 * of exactly that package version match. Stores without package information return
+	 * `undefined` in that case. Declarations, definitions and the hover only come from
+	 * export monikers, the references from all of them.
+	 */
+	public abstract findByMoniker(scheme: string, identifier: string, packageInformation?: PackageInfo): MonikerResults | undefined;
+
+	protected static asPackageInfo(value: PackageInformation | undefined): PackageInfo | undefined {
+		return value !== undefined ? { name: value.name, manager: value.manager, version: value.version } : undefined;
+	}
+
+	protected static isSamePackage(a: PackageInfo, b: PackageInfo | undefined): boolean {
+		return b !== undefined && a.manager === b.manager && a.name === b.name && a.version === b.version;
+	}
+
+	/**
+	 * Returns the range vertices containing the position together with the vertices
+	 * reached from them. These are the ranges the language features start from.
+	 */
+	public abstract inspect(uri: string, position: lsp.Position): InspectedElement[] | undefined;
+
+	/**
+	 * The maximal number of items listed per result vertex.
+	 */
+	protected static readonly maxInspectedItems = 200;
+
+	protected static describeVertex(label: string, properties: any): string | undefined {
+		if (label === VertexLabels.range) {
+			const range = `${properties.start.line}:${properties.start.character}-${properties.end.line}:${properties.end.character}`;
+			return properties.tag !== undefined && properties.tag.text !== undefined ? `${range} ${properties.tag.text}` : range;
+		} else if (label === VertexLabels.moniker) {
+			return properties.kind !== undefined ? `${properties.scheme}:${properties.identifier} (${properties.kind})` : `${properties.scheme}:${properties.identifier}`;
+		} else if (label === VertexLabels.document) {
+			return properties.uri;
+		}
+		return undefined;
+	}
+
+	/**
+	 * Inspects at most `maxInspectedItems` of the items of a result vertex.
+	 */
+	protected static inspectItems<T>(items: T[], inspect: (item: T) => InspectedElement): InspectedElement[] {
+		const result = items.slice(0, Database.maxInspectedItems).map(inspect);
+		if (items.length > Database.maxInspectedItems) {
+			result.push({ label: `${items.length - Database.maxInspectedItems} more items` });
+		}
+		return result;
+	}
+
+	protected asDocumentSymbol(range: Pick<Range, 'start' | 'end' | 'tag'>): lsp.DocumentSymbol | undefined {
 		let tag = range.tag;
 		if (tag === undefined || !(tag.type === 'declaration' || tag.type === 'definition')) {
 			return undefined;
@@ -100,7 +489,344 @@ export abstract class Database {
 		);
 	}
 
-	protected asRange(value: Range): lsp.Range {
+	/**
+	 * Returns the ranges of the given document which lie inside `range`.
+	 */
+	protected abstract findRangesInRange(uri: string, range: lsp.Range): lsp.Range[];
+
+	/**
+	 * Returns the range vertices of the given document or `undefined` if the document
+	 * is unknown. Only their position and tag are used.
+	 */
+	protected abstract findDocumentRanges(uri: string): Pick<Range, 'start' | 'end' | 'tag'>[] | undefined;
+
+	/**
+	 * Returns the definitions of the ranges of a document whose `makeRangeKey` is in
+	 * `keys`. The definitions of ranges sharing a result are only resolved once.
+	 */
+	protected abstract findDocumentDefinitions(uri: string, keys: Set<string>): Map<string, lsp.Location[]>;
+
+	/**
+	 * Classifies the ranges of a document. Declarations and definitions use the symbol
+	 * kind of their range tag. Other ranges use the symbol kind of their definition,
+	 * taken from the definition's range tag or the document symbols. If `lines` is
+	 * given only ranges starting on these lines are classified.
+	 */
+	public semanticTokens(uri: string, lines?: lsp.Range): SemanticToken[] | undefined {
+		const documentRanges = this.findDocumentRanges(uri);
+		if (documentRanges === undefined) {
+			return undefined;
+		}
+		// Semantic tokens can't span lines.
+		const ranges = documentRanges.filter(item => item.start.line === item.end.line && item.start.character !== item.end.character
+			&& (lines === undefined || (lines.start.line <= item.start.line && item.start.line <= lines.end.line)));
+		const references: Set<string> = new Set();
+		for (const item of ranges) {
+			if (item.tag === undefined || !(item.tag.type === 'declaration' || item.tag.type === 'definition')) {
+				references.add(Database.makeRangeKey(item));
+			}
+		}
+		const definitions = references.size > 0 ? this.findDocumentDefinitions(uri, references) : new Map<string, lsp.Location[]>();
+		const declarationKinds: Map<string, Map<string, lsp.SymbolKind>> = new Map();
+		const symbols: Map<string, lsp.DocumentSymbol[] | undefined> = new Map();
+		const findKind = (location: lsp.Location): lsp.SymbolKind | undefined => {
+			let kinds = declarationKinds.get(location.uri);
+			if (kinds === undefined) {
+				kinds = new Map();
+				for (const item of (location.uri === uri ? documentRanges : this.findDocumentRanges(location.uri)) ?? []) {
+					if (item.tag !== undefined && (item.tag.type === 'declaration' || item.tag.type === 'definition')) {
+						kinds.set(Database.makeRangeKey(item), item.tag.kind);
+					}
+				}
+				declarationKinds.set(location.uri, kinds);
+			}
+			const kind = kinds.get(Database.makeRangeKey(location.range));
+			return kind !== undefined ? kind : this.findSymbolAt(symbols, location.uri, location.range)?.kind;
+		};
+
+		const result: SemanticToken[] = [];
+		for (const item of ranges) {
+			const range = lsp.Range.create(item.start.line, item.start.character, item.end.line, item.end.character);
+			let kind: lsp.SymbolKind | undefined;
+			let declaration = false;
+			if (item.tag !== undefined && (item.tag.type === 'declaration' || item.tag.type === 'definition')) {
+				kind = item.tag.kind;
+				declaration = true;
+			} else {
+				for (const location of definitions.get(Database.makeRangeKey(range)) ?? []) {
+					kind = findKind(location);
+					if (kind !== undefined) {
+						declaration = location.uri === uri && Ranges.equals(location.range, range);
+						break;
+					}
+				}
+			}
+			const type = kind !== undefined ? semanticTokenTypes.get(kind) : undefined;
+			if (type === undefined) {
+				continue;
+			}
+			const modifiers: lsp.SemanticTokenModifiers[] = [];
+			if (declaration) {
+				modifiers.push(lsp.SemanticTokenModifiers.declaration);
+			}
+			if (kind === lsp.SymbolKind.Constant) {
+				modifiers.push(lsp.SemanticTokenModifiers.readonly);
+			}
+			result.push({ range, type, modifiers });
+		}
+		return result;
+	}
+
+	protected static makeRangeKey(range: lsp.Range): string {
+		return `${range.start.line}|${range.start.character}|${range.end.line}|${range.end.character}`;
+	}
+
+	public prepareCallHierarchy(uri: string, position: lsp.Position): lsp.CallHierarchyItem[] | undefined {
+		const symbols: Map<string, lsp.DocumentSymbol[] | undefined> = new Map();
+		const definitions = this.definitions(uri, position);
+		const locations: lsp.Location[] = definitions === undefined ? [] : Array.isArray(definitions) ? definitions : [definitions];
+		if (locations.length === 0) {
+			// No definition. Check if the position is on a symbol itself.
+			locations.push(lsp.Location.create(uri, lsp.Range.create(position, position)));
+		}
+		const result: lsp.CallHierarchyItem[] = [];
+		const dedup: Set<string> = new Set();
+		for (const location of locations) {
+			const symbol = this.findSymbolAt(symbols, location.uri, location.range);
+			if (symbol === undefined) {
+				continue;
+			}
+			const item = Database.asCallHierarchyItem(symbol, location.uri);
+			const key = Database.makeCallHierarchyItemKey(item);
+			if (!dedup.has(key)) {
+				dedup.add(key);
+				result.push(item);
+			}
+		}
+		return result.length > 0 ? result : undefined;
+	}
+
+	public incomingCalls(item: lsp.CallHierarchyItem): lsp.CallHierarchyIncomingCall[] | undefined {
+		const references = this.references(item.uri, item.selectionRange.start, { includeDeclaration: false });
+		if (references === undefined) {
+			return undefined;
+		}
+		const symbols: Map<string, lsp.DocumentSymbol[] | undefined> = new Map();
+		const calls: Map<string, lsp.CallHierarchyIncomingCall> = new Map();
+		for (const reference of references) {
+			const caller = this.findCaller(symbols, reference.uri, reference.range);
+			if (caller === undefined) {
+				continue;
+			}
+			const from = Database.asCallHierarchyItem(caller, reference.uri);
+			const key = Database.makeCallHierarchyItemKey(from);
+			let call = calls.get(key);
+			if (call === undefined) {
+				call = { from, fromRanges: [] };
+				calls.set(key, call);
+			}
+			call.fromRanges.push(reference.range);
+		}
+		return Array.from(calls.values());
+	}
+
+	public outgoingCalls(item: lsp.CallHierarchyItem): lsp.CallHierarchyOutgoingCall[] | undefined {
+		const symbols: Map<string, lsp.DocumentSymbol[] | undefined> = new Map();
+		const calls: Map<string, lsp.CallHierarchyOutgoingCall> = new Map();
+		for (const range of this.findRangesInRange(item.uri, item.range)) {
+			if (Ranges.equals(range, item.selectionRange)) {
+				continue;
+			}
+			const definitions = this.definitions(item.uri, range.start);
+			const locations: lsp.Location[] = definitions === undefined ? [] : Array.isArray(definitions) ? definitions : [definitions];
+			for (const location of locations) {
+				// A definition inside the body isn't a call.
+				if (location.uri === item.uri && Ranges.equals(location.range, range)) {
+					continue;
+				}
+				const callee = this.findSymbolAt(symbols, location.uri, location.range);
+				if (callee === undefined || !callableKinds.has(callee.kind)) {
+					continue;
+				}
+				const to = Database.asCallHierarchyItem(callee, location.uri);
+				const key = Database.makeCallHierarchyItemKey(to);
+				let call = calls.get(key);
+				if (call === undefined) {
+					call = { to, fromRanges: [] };
+					calls.set(key, call);
+				}
+				call.fromRanges.push(range);
+			}
+		}
+		return Array.from(calls.values());
+	}
+
+	private getCachedDocumentSymbols(cache: Map<string, lsp.DocumentSymbol[] | undefined>, uri: string): lsp.DocumentSymbol[] | undefined {
+		if (!cache.has(uri)) {
+			let symbols = this.documentSymbols(uri);
+			if (symbols === undefined || symbols.length === 0) {
+				// No document symbol result. Use the tags of the document's ranges instead.
+				symbols = this.getRangeTagSymbols(uri);
+			}
+			cache.set(uri, symbols);
+		}
+		return cache.get(uri);
+	}
+
+	/**
+	 * Creates symbols from the declaration and definition tags of a document's ranges.
+	 * Symbols are nested by their full range.
+	 */
+	private getRangeTagSymbols(uri: string): lsp.DocumentSymbol[] | undefined {
+		const ranges = this.findDocumentRanges(uri);
+		if (ranges === undefined) {
+			return undefined;
+		}
+		const symbols: lsp.DocumentSymbol[] = [];
+		for (const range of ranges) {
+			const symbol = this.asDocumentSymbol(range);
+			if (symbol !== undefined) {
+				symbols.push(symbol);
+			}
+		}
+		// Outer symbols first. They start earlier or at the same position and end later.
+		symbols.sort((a, b) => {
+			return a.range.start.line - b.range.start.line || a.range.start.character - b.range.start.character
+				|| b.range.end.line - a.range.end.line || b.range.end.character - a.range.end.character;
+		});
+		const result: lsp.DocumentSymbol[] = [];
+		const parents: lsp.DocumentSymbol[] = [];
+		for (const symbol of symbols) {
+			while (parents.length > 0 && !Ranges.contains(parents[parents.length - 1].range, symbol.range)) {
+				parents.pop();
+			}
+			if (parents.length === 0) {
+				result.push(symbol);
+			} else {
+				const parent = parents[parents.length - 1];
+				if (parent.children === undefined) {
+					parent.children = [];
+				}
+				parent.children.push(symbol);
+			}
+			parents.push(symbol);
+		}
+		return result;
+	}
+
+	/**
+	 * Finds the innermost symbol whose selection range contains `range`.
+	 */
+	private findSymbolAt(cache: Map<string, lsp.DocumentSymbol[] | undefined>, uri: string, range: lsp.Range): lsp.DocumentSymbol | undefined {
+		const find = (symbols: lsp.DocumentSymbol[]): lsp.DocumentSymbol | undefined => {
+			for (const symbol of symbols) {
+				if (!Ranges.contains(symbol.range, range)) {
+					continue;
+				}
+				const child = symbol.children !== undefined ? find(symbol.children) : undefined;
+				if (child !== undefined) {
+					return child;
+				}
+				if (Ranges.contains(symbol.selectionRange, range)) {
+					return symbol;
+				}
+			}
+			return undefined;
+		};
+		const symbols = this.getCachedDocumentSymbols(cache, uri);
+		return symbols !== undefined ? find(symbols) : undefined;
+	}
+
+	/**
+	 * Finds the innermost callable symbol whose range contains `range`. If there is none
+	 * the innermost enclosing symbol is used.
+	 */
+	private findCaller(cache: Map<string, lsp.DocumentSymbol[] | undefined>, uri: string, range: lsp.Range): lsp.DocumentSymbol | undefined {
+		let callable: lsp.DocumentSymbol | undefined;
+		let innermost: lsp.DocumentSymbol | undefined;
+		const find = (symbols: lsp.DocumentSymbol[]): void => {
+			for (const symbol of symbols) {
+				if (!Ranges.contains(symbol.range, range)) {
+					continue;
+				}
+				innermost = symbol;
+				if (callableKinds.has(symbol.kind)) {
+					callable = symbol;
+				}
+				if (symbol.children !== undefined) {
+					find(symbol.children);
+				}
+				return;
+			}
+		};
+		const symbols = this.getCachedDocumentSymbols(cache, uri);
+		if (symbols !== undefined) {
+			find(symbols);
+		}
+		return callable !== undefined ? callable : innermost;
+	}
+
+	private static asCallHierarchyItem(symbol: lsp.DocumentSymbol, uri: string): lsp.CallHierarchyItem {
+		return {
+			name: symbol.name,
+			kind: symbol.kind,
+			detail: symbol.detail,
+			uri,
+			range: symbol.range,
+			selectionRange: symbol.selectionRange
+		};
+	}
+
+	private static makeCallHierarchyItemKey(item: lsp.CallHierarchyItem): string {
+		const range = item.selectionRange;
+		return `${item.uri}|${range.start.line}|${range.start.character}|${range.end.line}|${range.end.character}`;
+	}
+
+	protected asSymbolInformation(range: Range, uri: string): lsp.SymbolInformation | undefined {
+		let tag = range.tag;
+		if (tag === undefined || !(tag.type === 'declaration' || tag.type === 'definition')) {
+			return undefined;
+		}
+		return lsp.SymbolInformation.create(tag.text, tag.kind, this.asRange(range), uri);
+	}
+
+	protected collectSymbols(result: lsp.SymbolInformation[], query: string, uri: string, symbols: lsp.DocumentSymbol[], containerName?: string): void {
+		for (let symbol of symbols) {
+			if (Database.matchesQuery(query, symbol.name)) {
+				result.push(lsp.SymbolInformation.create(symbol.name, symbol.kind, symbol.selectionRange, uri, containerName));
+			}
+			if (symbol.children !== undefined && symbol.children.length > 0) {
+				this.collectSymbols(result, query, uri, symbol.children, symbol.name);
+			}
+		}
+	}
+
+	/**
+	 * Tests if the characters of `query` appear in `name` in order. The test ignores case.
+	 */
+	protected static matchesQuery(query: string, name: string): boolean {
+		let index = 0;
+		const lowerName = name.toLowerCase();
+		for (const ch of query.toLowerCase()) {
+			index = lowerName.indexOf(ch, index);
+			if (index === -1) {
+				return false;
+			}
+			index++;
+		}
+		return true;
+	}
+
+	protected asDocumentLink(value: lsp.DocumentLink): lsp.DocumentLink {
+		const result: lsp.DocumentLink = Object.assign(Object.create(null), value);
+		// Only map targets pointing into the dump. Other links (e.g. http) stay as they are.
+		if (value.target !== undefined && URI.parse(value.target).scheme === this.getWorkspaceRoot().scheme) {
+			result.target = this.fromDatabase(value.target);
+		}
+		return result;
+	}
+
+	protected asRange(value: Pick<Range, 'start' | 'end'>): lsp.Range {
 		return {
 			start: {
 				line: value.start.line,
@@ -0,0 +1,164 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import * as lsp from 'vscode-languageserver';
+
+/**
+ * Maps positions between two versions of a document. The versions are compared
+ * line by line and only positions on unchanged lines can be mapped.
+ */
+export class LineMapping {
+
+	/**
+	 * The maximal number of inserted and deleted lines. Versions differing in more
+	 * lines are treated as having no line in common.
+	 */
+	private static readonly maxEdits = 1000;
+
+	private constructor(private readonly originalToModified: Int32Array, private readonly modifiedToOriginal: Int32Array) {
+	}
+
+	public static create(original: string, modified: string): LineMapping {
+		const ids: Map<string, number> = new Map();
+		const toIds = (text: string): number[] => text.split(/\r\n|\r|\n/).map((line) => {
+			let id = ids.get(line);
+			if (id === undefined) {
+				id = ids.size;
+				ids.set(line, id);
+			}
+			return id;
+		});
+		const a = toIds(original);
+		const b = toIds(modified);
+		const originalToModified = new Int32Array(a.length).fill(-1);
+		const modifiedToOriginal = new Int32Array(b.length).fill(-1);
+		const match = (x: number, y: number): void => {
+			originalToModified[x] = y;
+			modifiedToOriginal[y] = x;
+		};
+
+		// Most edits are local. So only diff what is between the common prefix and suffix.
+		let start = 0;
+		while (start < a.length && start < b.length && a[start] === b[start]) {
+			match(start, start);
+			start++;
+		}
+		let endA = a.length;
+		let endB = b.length;
+		while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+			endA--;
+			endB--;
+			match(endA, endB);
+		}
+		const pairs = LineMapping.diff(a.slice(start, endA), b.slice(start, endB));
+		if (pairs !== undefined) {
+			for (const [x, y] of pairs) {
+				match(start + x, start + y);
+			}
+		}
+		return new LineMapping(originalToModified, modifiedToOriginal);
+	}
+
+	public toModified(position: lsp.Position): lsp.Position | undefined {
+		return LineMapping.map(this.originalToModified, position);
+	}
+
+	public toOriginal(position: lsp.Position): lsp.Position | undefined {
+		return LineMapping.map(this.modifiedToOriginal, position);
+	}
+
+	public toModifiedRange(range: lsp.Range): lsp.Range | undefined {
+		const start = this.toModified(range.start);
+		const end = this.toModified(range.end);
+		return start !== undefined && end !== undefined ? lsp.Range.create(start, end) : undefined;
+	}
+
+	private static map(lines: Int32Array, position: lsp.Position): lsp.Position | undefined {
+		const line = position.line < lines.length ? lines[position.line] : -1;
+		return line !== -1 ? lsp.Position.create(line, position.character) : undefined;
+	}
+
+	/**
+	 * Computes the matching lines of two sequences using Myers' diff algorithm.
+	 * Returns `undefined` if the sequences differ in more than `maxEdits` lines.
+	 */
+	private static diff(a: number[], b: number[]): [number, number][] | undefined {
+		const n = a.length;
+		const m = b.length;
+		const limit = Math.min(n + m, LineMapping.maxEdits);
+		const offset = limit + 1;
+		const v = new Int32Array(2 * limit + 3);
+		// The furthest reaching x per diagonal before every step. Needed to walk back the path.
+		const trace: Int32Array[] = [];
+		for (let d = 0; d <= limit; d++) {
+			trace.push(v.slice(offset - d, offset + d + 1));
+			for (let k = -d; k <= d; k += 2) {
+				let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+				let y = x - k;
+				while (x < n && y < m && a[x] === b[y]) {
+					x++;
+					y++;
+				}
+				v[offset + k] = x;
+				if (x >= n && y >= m) {
+					return LineMapping.backtrack(trace, n, m);
+				}
+			}
+		}
+		return undefined;
+	}
+
+	private static backtrack(trace: Int32Array[], n: number, m: number): [number, number][] {
+		const result: [number, number][] = [];
+		let x = n;
+		let y = m;
+		for (let d = trace.length - 1; d > 0; d--) {
+			// trace[d] holds the diagonals -d to d.
+			const v = trace[d];
+			const k = x - y;
+			const previousK = k === -d || (k !== d && v[k - 1 + d] < v[k + 1 + d]) ? k + 1 : k - 1;
+			const previousX = v[previousK + d];
+			const previousY = previousX - previousK;
+			while (x > previousX && y > previousY) {
+				x--;
+				y--;
+				result.push([x, y]);
+			}
+			x = previousX;
+			y = previousY;
+		}
+		while (x > 0 && y > 0) {
+			x--;
+			y--;
+			result.push([x, y]);
+		}
+		return result;
+	}
+}
+
+/**
+ * Maps locations in indexed documents to their local documents. `toLocal` returns
+ * the local URI of a document or the URI itself if the document has none. Locations
+ * on lines changed locally are dropped. Every mapping is only requested once.
+ */
+export async function mapLocations(locations: lsp.Location[], toLocal: (uri: string) => string, getMapping: (localUri: string, uri: string) => Promise<LineMapping | undefined>): Promise<lsp.Location[]> {
+	const mappings: Map<string, LineMapping | undefined> = new Map();
+	const result: lsp.Location[] = [];
+	for (const location of locations) {
+		const uri = toLocal(location.uri);
+		if (uri === location.uri) {
+			result.push(location);
+			continue;
+		}
+		if (!mappings.has(uri)) {
+			mappings.set(uri, await getMapping(uri, location.uri));
+		}
+		const mapping = mappings.get(uri);
+		const range = mapping !== undefined ? mapping.toModifiedRange(location.range) : location.range;
+		if (range !== undefined) {
+			result.push(lsp.Location.create(uri, range));
+		}
+	}
+	return result;
+}
@@ -0,0 +1,312 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import * as fs from 'fs';
+
+import * as lsp from 'vscode-languageserver';
+import { Id, Vertex, Edge, VertexLabels } from 'lsif-protocol';
+
+/**
+ * A growable column of numbers.
+ */
+class Column<T extends Float64Array | Int32Array> {
+
+	private data: T;
+
+	public constructor(private readonly create: (length: number) => T, private readonly initial: number = 0) {
+		this.data = this.allocate(1024);
+	}
+
+	public get(index: number): number {
+		return index < this.data.length ? this.data[index] : this.initial;
+	}
+
+	public set(index: number, value: number): void {
+		if (index >= this.data.length) {
+			const data = this.allocate(Math.max(this.data.length * 2, index + 1));
+			data.set(this.data);
+			this.data = data;
+		}
+		this.data[index] = value;
+	}
+
+	private allocate(length: number): T {
+		const result = this.create(length);
+		if (this.initial !== 0) {
+			result.fill(this.initial);
+		}
+		return result;
+	}
+}
+
+/**
+ * Caches parsed lines up to a total number of bytes. The least recently used
+ * lines are dropped first.
+ */
+class LineCache {
+
+	private values: Map<string, { value: any; length: number; }>;
+	private size: number;
+
+	public constructor(private readonly maxSize: number) {
+		this.values = new Map();
+		this.size = 0;
+	}
+
+	public get(key: string): any | undefined {
+		const entry = this.values.get(key);
+		if (entry === undefined) {
+			return undefined;
+		}
+		// Maps iterate in insertion order. Move the entry to the end.
+		this.values.delete(key);
+		this.values.set(key, entry);
+		return entry.value;
+	}
+
+	public set(key: string, value: any, length: number): void {
+		if (length > this.maxSize / 16) {
+			return;
+		}
+		this.values.set(key, { value, length });
+		this.size += length;
+		for (const [key, entry] of this.values) {
+			if (this.size <= this.maxSize) {
+				break;
+			}
+			this.values.delete(key);
+			this.size -= entry.length;
+		}
+	}
+}
+
+/**
+ * An index of a LSIF line json dump. Instead of the elements it keeps the byte
+ * offset and length of their lines and reads the elements from the dump when
+ * needed. Besides that only the links between the elements, the positions of
+ * the ranges and the vertices containing them are kept in memory. Ranges can so
+ * be found by position without reading them.
+ */
+export class DumpIndex {
+
+	private static readonly maxCacheSize = 32 * 1024 * 1024;
+
+	private fd: number | undefined;
+	private cache: LineCache;
+
+	private vertexSlots: Map<Id, number>;
+	private vertexIds: Id[];
+	private vertexOffsets: Column<Float64Array>;
+	private vertexLengths: Column<Int32Array>;
+	private containers: Column<Int32Array>;
+	private positions: Column<Int32Array>;
+	private contained: Map<Id, number[]>;
+
+	private edgeCount: number;
+	private edgeOffsets: Column<Float64Array>;
+	private edgeLengths: Column<Int32Array>;
+	private edgeLabels: Column<Int32Array>;
+	private labels: Map<string, number>;
+
+	/**
+	 * The edges of a vertex form linked lists. The maps hold the last edge, the
+	 * columns the edge added before.
+	 */
+	private lastOutgoing: Map<Id, number>;
+	private previousOutgoing: Column<Int32Array>;
+	private lastIncoming: Map<Id, number>;
+	private previousIncoming: Column<Int32Array>;
+
+	public constructor(file: string) {
+		this.fd = fs.openSync(file, 'r');
+		this.cache = new LineCache(DumpIndex.maxCacheSize);
+		this.vertexSlots = new Map();
+		this.vertexIds = [];
+		this.vertexOffsets = new Column(length => new Float64Array(length));
+		this.vertexLengths = new Column(length => new Int32Array(length));
+		this.containers = new Column(length => new Int32Array(length), -1);
+		this.positions = new Column(length => new Int32Array(length), -1);
+		this.contained = new Map();
+		this.edgeCount = 0;
+		this.edgeOffsets = new Column(length => new Float64Array(length));
+		this.edgeLengths = new Column(length => new Int32Array(length));
+		this.edgeLabels = new Column(length => new Int32Array(length));
+		this.labels = new Map();
+		this.lastOutgoing = new Map();
+		this.previousOutgoing = new Column(length => new Int32Array(length), -1);
+		this.lastIncoming = new Map();
+		this.previousIncoming = new Column(length => new Int32Array(length), -1);
+	}
+
+	public close(): void {
+		if (this.fd !== undefined) {
+			fs.closeSync(this.fd);
+			this.fd = undefined;
+		}
+	}
+
+	/**
+	 * Adds a vertex. The positions of ranges are kept in memory.
+	 */
+	public addVertex(vertex: Vertex, offset: number, length: number): void {
+		let slot = this.vertexSlots.get(vertex.id);
+		if (slot === undefined) {
+			slot = this.vertexIds.length;
+			this.vertexSlots.set(vertex.id, slot);
+			this.vertexIds.push(vertex.id);
+		}
+		this.vertexOffsets.set(slot, offset);
+		this.vertexLengths.set(slot, length);
+		if (vertex.label === VertexLabels.range) {
+			this.positions.set(slot * 4, vertex.start.line);
+			this.positions.set(slot * 4 + 1, vertex.start.character);
+			this.positions.set(slot * 4 + 2, vertex.end.line);
+			this.positions.set(slot * 4 + 3, vertex.end.character);
+		}
+	}
+
+	public hasVertex(id: Id): boolean {
+		return this.vertexSlots.has(id);
+	}
+
+	/**
+	 * Adds the ends of a contains edge. Only the vertices are kept, not the edge.
+	 */
+	public addContains(outV: Id, inVs: Id[]): void {
+		let values = this.contained.get(outV);
+		if (values === undefined) {
+			values = [];
+			this.contained.set(outV, values);
+		}
+		const container = this.vertexSlots.get(outV)!;
+		for (const inV of inVs) {
+			const slot = this.vertexSlots.get(inV)!;
+			values.push(slot);
+			this.containers.set(slot, container);
+		}
+	}
+
+	/**
+	 * Adds an edge other than a contains edge. Only edges added as `incoming` can
+	 * be found from their in vertex. These must be 1:1 edges.
+	 */
+	public addEdge(edge: Edge, offset: number, length: number, incoming: boolean): void {
+		const slot = this.edgeCount++;
+		this.edgeOffsets.set(slot, offset);
+		this.edgeLengths.set(slot, length);
+		this.edgeLabels.set(slot, this.getLabel(edge.label));
+		const previous = this.lastOutgoing.get(edge.outV);
+		this.previousOutgoing.set(slot, previous !== undefined ? previous : -1);
+		this.lastOutgoing.set(edge.outV, slot);
+		if (incoming && Edge.is11(edge)) {
+			const previous = this.lastIncoming.get(edge.inV);
+			this.previousIncoming.set(slot, previous !== undefined ? previous : -1);
+			this.lastIncoming.set(edge.inV, slot);
+		}
+	}
+
+	/**
+	 * Reads a vertex from the dump.
+	 */
+	public vertex<T extends Vertex>(id: Id): T | undefined {
+		const slot = this.vertexSlots.get(id);
+		if (slot === undefined) {
+			return undefined;
+		}
+		return this.read(`v${slot}`, this.vertexOffsets.get(slot), this.vertexLengths.get(slot));
+	}
+
+	/**
+	 * Returns the position of a range without reading it.
+	 */
+	public range(id: Id): lsp.Range | undefined {
+		const slot = this.vertexSlots.get(id);
+		if (slot === undefined || this.positions.get(slot * 4) === -1) {
+			return undefined;
+		}
+		return lsp.Range.create(this.positions.get(slot * 4), this.positions.get(slot * 4 + 1), this.positions.get(slot * 4 + 2), this.positions.get(slot * 4 + 3));
+	}
+
+	/**
+	 * Returns the vertices a vertex contains in the order of the contains edges.
+	 */
+	public getContained(id: Id): Id[] | undefined {
+		const slots = this.contained.get(id);
+		return slots !== undefined ? slots.map(slot => this.vertexIds[slot]) : undefined;
+	}
+
+	public getContainer(id: Id): Id | undefined {
+		const slot = this.vertexSlots.get(id);
+		const container = slot !== undefined ? this.containers.get(slot) : -1;
+		return container !== -1 ? this.vertexIds[container] : undefined;
+	}
+
+	public hasOutgoing(id: Id, label: string): boolean {
+		return this.findEdges(this.lastOutgoing.get(id), this.previousOutgoing, label, true).length > 0;
+	}
+
+	/**
+	 * Reads the edges with the given label starting at a vertex in the order of the dump.
+	 */
+	public outgoing<T extends Edge>(id: Id, label: string): T[] {
+		return this.findEdges(this.lastOutgoing.get(id), this.previousOutgoing, label, false).map(slot => this.readEdge(slot));
+	}
+
+	public hasIncoming(id: Id, label: string): boolean {
+		return this.findEdges(this.lastIncoming.get(id), this.previousIncoming, label, true).length > 0;
+	}
+
+	/**
+	 * Reads the edges added as `incoming` with the given label ending at a vertex in
+	 * the order of the dump.
+	 */
+	public incoming<T extends Edge>(id: Id, label: string): T[] {
+		return this.findEdges(this.lastIncoming.get(id), this.previousIncoming, label, false).map(slot => this.readEdge(slot));
+	}
+
+	private findEdges(last: number | undefined, previous: Column<Int32Array>, label: string, first: boolean): number[] {
+		const result: number[] = [];
+		const code = this.labels.get(label);
+		if (code === undefined) {
+			return result;
+		}
+		for (let slot = last !== undefined ? last : -1; slot !== -1; slot = previous.get(slot)) {
+			if (this.edgeLabels.get(slot) === code) {
+				result.push(slot);
+				if (first) {
+					break;
+				}
+			}
+		}
+		return result.reverse();
+	}
+
+	private getLabel(label: string): number {
+		let result = this.labels.get(label);
+		if (result === undefined) {
+			result = this.labels.size;
+			this.labels.set(label, result);
+		}
+		return result;
+	}
+
+	private readEdge<T extends Edge>(slot: number): T {
+		return this.read(`e${slot}`, this.edgeOffsets.get(slot), this.edgeLengths.get(slot));
+	}
+
+	private read<T>(key: string, offset: number, length: number): T {
+		let result: T | undefined = this.cache.get(key);
+		if (result !== undefined) {
+			return result;
+		}
+		if (this.fd === undefined) {
+			throw new Error('The LSIF dump is closed.');
+		}
+		const buffer = Buffer.alloc(length);
+		fs.readSync(this.fd, buffer, 0, length, offset);
+		result = JSON.parse(buffer.toString('utf8')) as T;
+		this.cache.set(key, result, length);
+		return result;
+	}
+}
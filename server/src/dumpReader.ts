@@ -0,0 +1,156 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import * as fs from 'fs';
+import * as zlib from 'zlib';
+import { Readable, Transform } from 'stream';
+
+import * as lsp from 'vscode-languageserver';
+
+export type Compression = 'gzip' | 'zstd';
+
+export namespace Compression {
+	export function fromFile(file: string): Compression | undefined {
+		if (file.endsWith('.gz')) {
+			return 'gzip';
+		} else if (file.endsWith('.zst') || file.endsWith('.zstd')) {
+			return 'zstd';
+		}
+		return undefined;
+	}
+
+	/**
+	 * Estimates the decompressed size of a dump. Gzip stores the size modulo 2^32 in
+	 * its trailer. Otherwise the size of the file is the only lower bound known.
+	 */
+	export function estimateSize(file: string): number {
+		const size = fs.statSync(file).size;
+		if (fromFile(file) !== 'gzip' || size < 18) {
+			return size;
+		}
+		const trailer = Buffer.alloc(4);
+		const fd = fs.openSync(file, 'r');
+		try {
+			fs.readSync(fd, trailer, 0, 4, size - 4);
+		} finally {
+			fs.closeSync(fd);
+		}
+		return Math.max(size, trailer.readUInt32LE(0));
+	}
+
+	export function createDecompressor(compression: Compression): Transform {
+		switch (compression) {
+			case 'gzip':
+				return zlib.createGunzip();
+			case 'zstd': {
+				// Zstandard support got added to zlib in newer Node versions only.
+				if (!('createZstdDecompress' in zlib) || typeof zlib.createZstdDecompress !== 'function') {
+					throw new Error(`Zstandard compressed dumps require a Node version with zstd support. The current version is ${process.version}.`);
+				}
+				return zlib.createZstdDecompress();
+			}
+		}
+	}
+}
+
+export interface DumpReaderOptions {
+	/**
+	 * Called while reading with the number of bytes read so far. For compressed
+	 * dumps the numbers refer to the compressed file.
+	 */
+	progress?: (bytesRead: number, totalBytes: number) => void;
+
+	token?: lsp.CancellationToken;
+}
+
+/**
+ * Reads a LSIF dump line by line. Unlike `readline` this keeps track of the byte
+ * offset and length of every line so that it can be read again later. The offsets
+ * of compressed dumps refer to the decompressed content. Empty lines are skipped
+ * but counted in the zero based `lineNumber`.
+ */
+export function readDump(file: string, options: DumpReaderOptions, onLine: (line: string, offset: number, length: number, lineNumber: number) => void): Promise<void> {
+	return new Promise<void>((resolve, reject) => {
+		const compression = Compression.fromFile(file);
+		const totalBytes = fs.statSync(file).size;
+		const decompressor = compression !== undefined ? Compression.createDecompressor(compression) : undefined;
+		const stream: fs.ReadStream = fs.createReadStream(file);
+		const input: Readable = decompressor !== undefined ? stream.pipe(decompressor) : stream;
+		const fail = (error: any): void => {
+			stream.destroy();
+			if (input !== stream) {
+				input.destroy();
+			}
+			reject(error);
+		};
+		stream.on('error', fail);
+		if (input !== stream) {
+			input.on('error', fail);
+		}
+		let bytesRead = 0;
+		stream.on('data', (chunk: Buffer) => {
+			bytesRead += chunk.length;
+			if (options.progress !== undefined) {
+				options.progress(bytesRead, totalBytes);
+			}
+		});
+
+		let lineNumber = 0;
+		const processLine = (line: Buffer, offset: number): void => {
+			const current = lineNumber++;
+			let length = line.length;
+			if (length > 0 && line[length - 1] === 0x0D) {
+				length--;
+			}
+			if (length === 0) {
+				return;
+			}
+			onLine(line.toString('utf8', 0, length), offset, length, current);
+		};
+
+		const pending: Buffer[] = [];
+		let pendingLength = 0;
+		let position = 0;
+		input.on('data', (chunk: Buffer) => {
+			if (options.token !== undefined && options.token.isCancellationRequested) {
+				fail(new Error('Reading the LSIF dump got canceled.'));
+				return;
+			}
+			try {
+				let start = 0;
+				let end = chunk.indexOf(0x0A);
+				while (end !== -1) {
+					if (pending.length > 0) {
+						pending.push(chunk.subarray(start, end));
+						processLine(Buffer.concat(pending), position - pendingLength);
+						pending.length = 0;
+						pendingLength = 0;
+					} else {
+						processLine(chunk.subarray(start, end), position + start);
+					}
+					start = end + 1;
+					end = chunk.indexOf(0x0A, start);
+				}
+				if (start < chunk.length) {
+					pending.push(chunk.subarray(start));
+					pendingLength += chunk.length - start;
+				}
+				position += chunk.length;
+			} catch (error) {
+				fail(error);
+			}
+		});
+		input.on('end', () => {
+			try {
+				if (pending.length > 0) {
+					processLine(Buffer.concat(pending), position - pendingLength);
+				}
+			} catch (error) {
+				fail(error);
+				return;
+			}
+			resolve();
+		});
+	});
+}
@@ -0,0 +1,84 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import * as fs from 'fs';
+
+import * as lsp from 'vscode-languageserver';
+import { ElementTypes } from 'lsif-protocol';
+
+import { Database } from './database';
+
+export interface ExportOptions {
+	/**
+	 * Called from time to time with the number of elements written so far.
+	 */
+	progress?: (elements: number) => void;
+
+	token?: lsp.CancellationToken;
+}
+
+export interface ExportSummary {
+	vertices: number;
+	edges: number;
+}
+
+/**
+ * Writes the content of a database as a LSIF line json dump. An existing file at
+ * `output` is replaced. If the export fails no dump is left behind.
+ */
+export function exportDump(database: Database, output: string, options: ExportOptions): Promise<ExportSummary> {
+	const elements = database.elements();
+	if (elements === undefined) {
+		return Promise.reject(new Error('The LSIF database can\'t be exported.'));
+	}
+	return new Promise<ExportSummary>((resolve, reject) => {
+		const summary: ExportSummary = { vertices: 0, edges: 0 };
+		const stream = fs.createWriteStream(output);
+		let failed = false;
+		const fail = (error: any): void => {
+			if (failed) {
+				return;
+			}
+			failed = true;
+			if (elements.return !== undefined) {
+				elements.return();
+			}
+			stream.destroy();
+			fs.unlink(output, () => reject(error));
+		};
+		stream.on('error', fail);
+
+		// Writes until the stream buffers too much and continues once it got drained.
+		const write = (): void => {
+			try {
+				while (!failed) {
+					if (options.token !== undefined && options.token.isCancellationRequested) {
+						fail(new Error('Exporting the LSIF database got canceled.'));
+						return;
+					}
+					const next = elements.next();
+					if (next.done) {
+						stream.end(() => resolve(summary));
+						return;
+					}
+					if (next.value.type === ElementTypes.vertex) {
+						summary.vertices++;
+					} else {
+						summary.edges++;
+					}
+					if (!stream.write(`${JSON.stringify(next.value)}\n`)) {
+						if (options.progress !== undefined) {
+							options.progress(summary.vertices + summary.edges);
+						}
+						stream.once('drain', write);
+						return;
+					}
+				}
+			} catch (error) {
+				fail(error);
+			}
+		};
+		write();
+	});
+}
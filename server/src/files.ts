@@ -127,6 +127,13 @@ export class FileSystem {
 		return result;
 	}
 
+	/**
+	 * Returns the documents which aren't shown since they are outside of the workspace root.
+	 */
+	public getFilesOutsideWorkspaceRoot(): string[] {
+		return Array.from(this.filesOutsideWorkspaceRoot.keys());
+	}
+
 	public getFileInfo(uri: string): { id: Id, hash: string | undefined } | undefined {
 		let result = this.filesOutsideWorkspaceRoot.get(uri);
 		if (result !== undefined) {
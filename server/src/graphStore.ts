@@ -6,10 +6,14 @@ import * as Sqlite from 'better-sqlite3';
 
 import * as lsp from 'vscode-languageserver';
 
-import { Database, UriTransformer } from './database';
 import {
-	Id, EdgeLabels, DefinitionResult, FoldingRangeResult, DocumentSymbolResult, RangeBasedDocumentSymbol, Range, HoverResult,
-	ReferenceResult, ItemEdgeProperties, DeclarationResult, Moniker, MonikerKind, VertexLabels, Vertex, Source
+	Database, UriTransformer, DatabaseStatistics, MonikerStatistics, InspectedElement, ProjectOutline, MonikerLocation, MonikerInfo,
+	MonikerResults, PackageInfo
+} from './database';
+import {
+	Id, EdgeLabels, DefinitionResult, FoldingRangeResult, DocumentSymbolResult, DiagnosticResult, DocumentLinkResult, RangeBasedDocumentSymbol, Range, HoverResult,
+	ReferenceResult, ItemEdgeProperties, DeclarationResult, TypeDefinitionResult, ImplementationResult, Moniker, MonikerKind, VertexLabels, Vertex, Source,
+	Edge, ElementTypes
 } from 'lsif-protocol';
 import { MetaData, CompressorDescription, CompressionKind } from './protocol.compress';
 import { DocumentInfo } from './files';
@@ -22,21 +26,44 @@ interface DecompressorPropertyDescription {
 	longForm?: Map<string | number, string>;
 }
 
-class Decompressor {
+/**
+ * The decompressors of a single database. Compressor ids are only unique
+ * inside the database that defines them.
+ */
+class Decompressors {
+
+	private all: Map<number, Decompressor>;
 
-	public static all: Map<number, Decompressor> = new Map();
+	public constructor() {
+		this.all = new Map();
+	}
 
-	public static get(id: number): Decompressor | undefined {
+	public get(id: number): Decompressor | undefined {
 		return this.all.get(id);
 	}
 
+	public add(description: CompressorDescription): void {
+		this.all.set(description.id, new Decompressor(description, this));
+	}
+
+	public link(): void {
+		for (let element of this.all.values()) {
+			element.link();
+		}
+	}
+}
+
+class Decompressor {
+
 	private id: number;
 	private parentId: number | undefined;
 	private parent: Decompressor | undefined;
 	private properties: DecompressorPropertyDescription[];
+	private decompressors: Decompressors;
 
-	constructor(description: CompressorDescription) {
+	constructor(description: CompressorDescription, decompressors: Decompressors) {
 		this.id = description.id;
+		this.decompressors = decompressors;
 		this.parentId = description.parent;
 		this.properties = [];
 		for (let item of description.properties) {
@@ -54,12 +81,11 @@ class Decompressor {
 			}
 			this.properties.push(propertyDescription);
 		}
-		Decompressor.all.set(this.id, this);
 	}
 
 	public link(): void {
 		if (this.parentId !== undefined) {
-			this.parent = Decompressor.get(this.parentId);
+			this.parent = this.decompressors.get(this.parentId);
 		}
 	}
 
@@ -116,7 +142,7 @@ class Decompressor {
 						throw new Error(`Compression kind literal detected on non array value. The property is ${property.name}`);
 					}
 					let convertedLiteral: any;
-					decompressor = Decompressor.get(value[0]);
+					decompressor = this.decompressors.get(value[0]);
 					if (decompressor === undefined) {
 						throw new Error(`No decompression found for property ${property.name} and id ${value[0]}`);
 					}
@@ -133,7 +159,7 @@ class Decompressor {
 						if (type === 'string' || type === 'number' || type === 'boolean') {
 							convertedArray.push(element);
 						} else if (Array.isArray(element) && element.length > 0 && typeof element[0] === 'number') {
-							decompressor = Decompressor.get(element[0]);
+							decompressor = this.decompressors.get(element[0]);
 							if (decompressor === undefined) {
 								throw new Error(`No decompression found for property ${property.name} and id ${element[0]}`);
 							}
@@ -156,7 +182,7 @@ class Decompressor {
 							if (type === 'string' || type === 'number' || type === 'boolean') {
 								(convertedAny as any[]).push(element);
 							} else if (Array.isArray(element) && element.length > 0 && typeof element[0] === 'number') {
-								decompressor = Decompressor.get(element[0]);
+								decompressor = this.decompressors.get(element[0]);
 								if (decompressor === undefined) {
 									throw new Error(`No decompression found for property ${property.name} and id ${element[0]}`);
 								}
@@ -231,6 +257,55 @@ interface PreviousResult {
 	outV: number;
 }
 
+interface SymbolResult extends VertexResult {
+	uri: string;
+}
+
+interface ElementResult extends IdResult {
+	kind: ElementKind;
+	label: number | string | null;
+	value: string | null;
+	outV: Id | null;
+	inV: Id | null;
+	document: Id | null;
+	property: number | string | null;
+	content: Buffer | null;
+}
+
+interface ProjectResult extends VertexResult {
+	uri: string | null;
+}
+
+interface MonikerResult extends VertexResult {
+	identifier: string;
+}
+
+interface InspectEdgeResult extends VertexResult {
+	edge: number | string | null;
+	property: number | string | null;
+}
+
+/**
+ * The long forms of the labels used while inspecting a vertex.
+ */
+interface InspectContext {
+	vertexLabels: Map<number | string, string>;
+	edgeLabels: Map<number | string, string>;
+	itemEdgeProperties: Map<number | string, string>;
+	path: Set<Id>;
+}
+
+enum ElementKind {
+	vertex = 0,
+	edge = 1,
+	item = 2
+}
+
+/**
+ * Edges with more than one row in the edges or items table.
+ */
+const oneToNEdgeLabels: Set<string> = new Set([EdgeLabels.contains, EdgeLabels.item]);
+
 interface DocumentInfoResult extends IdResult {
 	projectId: Id;
 	uri: string;
@@ -312,17 +387,26 @@ class VertexRetriever extends Retriever<VertexResult> {
 		'Where v.id in'
 	].join(' ');
 
-	private static preparedStatements: Map<number, Sqlite.Statement> = new Map();
+	private static preparedStatements: WeakMap<Sqlite.Database, Map<number, Sqlite.Statement>> = new WeakMap();
+
+	private preparedStatements: Map<number, Sqlite.Statement>;
 
 	public constructor(db: Sqlite.Database, batchSize: number = 16) {
 		super('VertexRetriever', db, batchSize);
+		// Statements are bound to the database they got prepared for.
+		let preparedStatements = VertexRetriever.preparedStatements.get(db);
+		if (preparedStatements === undefined) {
+			preparedStatements = new Map();
+			VertexRetriever.preparedStatements.set(db, preparedStatements);
+		}
+		this.preparedStatements = preparedStatements;
 	}
 
 	protected getFullStatement(size: number): Sqlite.Statement {
-		let result = VertexRetriever.preparedStatements.get(size);
+		let result = this.preparedStatements.get(size);
 		if (!result) {
 			result = this.prepare(VertexRetriever.statement, size);
-			VertexRetriever.preparedStatements.set(size, result);
+			this.preparedStatements.set(size, result);
 		}
 		return result;
 	}
@@ -340,17 +424,26 @@ class LocationRetriever extends Retriever<LocationResult> {
 		'Where r.id in'
 	].join(' ');
 
-	private static preparedStatements: Map<number, Sqlite.Statement> = new Map();
+	private static preparedStatements: WeakMap<Sqlite.Database, Map<number, Sqlite.Statement>> = new WeakMap();
+
+	private preparedStatements: Map<number, Sqlite.Statement>;
 
 	public constructor(db: Sqlite.Database, batchSize: number = 16) {
 		super('LocationRetriever', db, batchSize);
+		// Statements are bound to the database they got prepared for.
+		let preparedStatements = LocationRetriever.preparedStatements.get(db);
+		if (preparedStatements === undefined) {
+			preparedStatements = new Map();
+			LocationRetriever.preparedStatements.set(db, preparedStatements);
+		}
+		this.preparedStatements = preparedStatements;
 	}
 
 	protected getFullStatement(size: number): Sqlite.Statement {
-		let result = LocationRetriever.preparedStatements.get(size);
+		let result = this.preparedStatements.get(size);
 		if (!result) {
 			result = this.prepare(LocationRetriever.statement, size);
-			LocationRetriever.preparedStatements.set(size, result);
+			this.preparedStatements.set(size, result);
 		}
 		return result;
 	}
@@ -367,10 +460,13 @@ export class GraphStore extends Database {
 	private allDocumentsStmt!: Sqlite.Statement;
 	private getDocumentContentStmt!: Sqlite.Statement;
 	private findRangeStmt!: Sqlite.Statement;
+	private findRangesInRangeStmt!: Sqlite.Statement;
+	private findDocumentRangesStmt!: Sqlite.Statement;
 	private findDocumentStmt!: Sqlite.Statement;
 	private findResultStmt!: Sqlite.Statement;
 	private findMonikerStmt!: Sqlite.Statement;
 	private findMatchingMonikersStmt!: Sqlite.Statement;
+	private findMonikersByIdentifierStmt!: Sqlite.Statement;
 	private findAttachedMonikersStmt!: Sqlite.Statement;
 	private findNextMonikerStmt!: Sqlite.Statement;
 	private findVertexIdForMonikerStmt!: Sqlite.Statement;
@@ -380,15 +476,24 @@ export class GraphStore extends Database {
 	private findRangeFromReferenceResult!: Sqlite.Statement;
 	private findResultFromReferenceResult!: Sqlite.Statement;
 	private findCascadesFromReferenceResult!: Sqlite.Statement;
+	private findVerticesFromResult!: Sqlite.Statement;
+	private findSymbolRangesStmt!: Sqlite.Statement;
+	private findSymbolResultsStmt!: Sqlite.Statement;
 	private findRangeFromResult!: Sqlite.Statement;
+	private inspectEdgesStmt!: Sqlite.Statement;
+	private findProjectsStmt!: Sqlite.Statement;
+	private listMonikersStmt!: Sqlite.Statement;
 
 	private workspaceRoot!: URI;
+	private metaData!: MetaData;
 	private vertexLabels: Map<string, number> | undefined;
 	private edgeLabels: Map<string, number> | undefined;
 	private itemEdgeProperties: Map<string, number> | undefined;
+	private decompressors: Decompressors;
 
 	public constructor() {
 		super();
+		this.decompressors = new Decompressors();
 	}
 
 	public load(file: string, transformerFactory: (workspaceRoot: string) => UriTransformer): Promise<void> {
@@ -410,6 +515,19 @@ export class GraphStore extends Database {
 					'(r.startLine = $line and r.endLine = $line and r.startCharacter <= $character and $character <= r.endCharacter)',
 			  	')'
 		].join(' '));
+		this.findRangesInRangeStmt = this.db.prepare([
+			'Select r.id, r.belongsTo, r.startLine, r.startCharacter, r.endLine, r.endCharacter From ranges r',
+			'Inner Join documents d On r.belongsTo = d.id',
+			'where',
+				'd.uri = $uri and',
+				'(r.startLine > $startLine or (r.startLine = $startLine and r.startCharacter >= $startCharacter)) and',
+				'(r.endLine < $endLine or (r.endLine = $endLine and r.endCharacter <= $endCharacter))'
+		].join(' '));
+		this.findDocumentRangesStmt = this.db.prepare([
+			'Select v.value From ranges r',
+			'Inner Join vertices v On v.id = r.id',
+			'where r.belongsTo = ?'
+		].join(' '));
 		/* eslint-enable indent */
 		const nextLabel = this.edgeLabels !== undefined ? this.edgeLabels.get(EdgeLabels.next)! : EdgeLabels.next;
 		const monikerEdgeLabel = this.edgeLabels !== undefined ? this.edgeLabels.get(EdgeLabels.moniker)! : EdgeLabels.moniker;
@@ -431,6 +549,11 @@ export class GraphStore extends Database {
 			'Inner Join monikers m on v.id = m.id',
 			'Where m.identifier = $identifier and m.scheme = $scheme and m.id != $exclude'
 		].join(' '));
+		this.findMonikersByIdentifierStmt = this.db.prepare([
+			'Select v.id, v.label, v.value From vertices v',
+			'Inner Join monikers m on v.id = m.id',
+			'Where m.identifier = $identifier and m.scheme = $scheme'
+		].join(' '));
 		this.findAttachedMonikersStmt = this.db.prepare([
 			'Select v.id, v.label, v.value from vertices v',
 			'Inner Join edges e On e.outV = v.id',
@@ -484,6 +607,45 @@ export class GraphStore extends Database {
 			'Inner Join items i On i.inV = v.id',
 			'Where i.outV = $id and i.property = 5'
 		].join(' '));
+		this.findVerticesFromResult = this.db.prepare([
+			'Select v.id, v.label, v.value from vertices v',
+			'Inner Join items i On i.inV = v.id',
+			'Where i.outV = $id and i.property = $property'
+		].join(' '));
+		this.findSymbolRangesStmt = this.db.prepare([
+			'Select v.id, v.label, v.value, d.uri from vertices v',
+			'Inner Join ranges r On r.id = v.id',
+			'Inner Join documents d On r.belongsTo = d.id',
+			`Where v.label = $label and v.value like $pattern escape '\\'`
+		].join(' '));
+		this.findSymbolResultsStmt = this.db.prepare([
+			'Select v.id, v.label, v.value, d.uri from vertices v',
+			'Inner Join edges e On e.inV = v.id',
+			'Inner Join documents d On d.id = e.outV',
+			`Where e.label = $label and v.value like $pattern escape '\\'`
+		].join(' '));
+		this.inspectEdgesStmt = this.db.prepare([
+			'Select e.label as edge, Null as property, v.id, v.label, v.value From edges e',
+			'Inner Join vertices v On v.id = e.inV',
+			'Where e.outV = $source',
+			'Union All',
+			'Select Null, i.property, v.id, v.label, v.value From items i',
+			'Inner Join vertices v On v.id = i.inV',
+			'Where i.outV = $source'
+		].join(' '));
+		this.findProjectsStmt = this.db.prepare([
+			'Select p.id, p.label, p.value, d.uri From vertices p',
+			'Left Join edges e On e.outV = p.id and e.label = $contains',
+			'Left Join documents d On d.id = e.inV',
+			'Where p.label = $project',
+			'Order By p.id'
+		].join(' '));
+		this.listMonikersStmt = this.db.prepare([
+			'Select v.id, v.label, v.value, m.identifier From vertices v',
+			'Inner Join monikers m On m.id = v.id',
+			'Where m.scheme = $scheme and m.kind = $kind',
+			'Order By m.identifier'
+		].join(' '));
 		this.initialize(transformerFactory);
 		return Promise.resolve();
 	}
@@ -494,18 +656,17 @@ export class GraphStore extends Database {
 			throw new Error('Failed to read meta data record.');
 		}
 		let metaData: MetaData = JSON.parse(result[0].value);
+		this.metaData = metaData;
 		if (metaData.compressors !== undefined) {
 			this.vertexLabels = new Map();
 			this.edgeLabels = new Map();
 			this.itemEdgeProperties = new Map();
 			for (let decription of metaData.compressors.all) {
-				new Decompressor(decription);
-			}
-			for (let element of Decompressor.all.values()) {
-				element.link();
+				this.decompressors.add(decription);
 			}
+			this.decompressors.link();
 			// Vertex Compressor
-			let decompressor = Decompressor.get(metaData.compressors.vertexCompressor);
+			let decompressor = this.decompressors.get(metaData.compressors.vertexCompressor);
 			if (decompressor === undefined) {
 				throw new Error('No vertex decompressor found.');
 			}
@@ -517,7 +678,7 @@ export class GraphStore extends Database {
 				this.vertexLabels.set(item[1], item[0] as number);
 			}
 			// Edge Compressor
-			decompressor = Decompressor.get(metaData.compressors.edgeCompressor);
+			decompressor = this.decompressors.get(metaData.compressors.edgeCompressor);
 			if (decompressor === undefined) {
 				throw new Error('No edge decompressor found.');
 			}
@@ -529,7 +690,7 @@ export class GraphStore extends Database {
 				this.edgeLabels.set(item[1], item[0] as number);
 			}
 			// Item edge Compressor
-			decompressor = Decompressor.get(metaData.compressors.itemEdgeCompressor);
+			decompressor = this.decompressors.get(metaData.compressors.itemEdgeCompressor);
 			if (decompressor === undefined) {
 				throw new Error('No item edge decompressor found.');
 			}
@@ -559,6 +720,122 @@ export class GraphStore extends Database {
 		this.db.close();
 	}
 
+	public statistics(): DatabaseStatistics {
+		const vertexLabels = GraphStore.reverse(this.vertexLabels);
+		const labels: Map<string, number> = new Map();
+		for (const row of this.db.prepare('Select label, count(*) as count From vertices Group By label').all() as { label: number | string; count: number }[]) {
+			labels.set(GraphStore.longForm(vertexLabels, row.label), row.count);
+		}
+		const monikers = this.db.prepare('Select scheme, kind, count(*) as count From monikers Group By scheme, kind').all() as { scheme: string; kind: string | null; count: number }[];
+		return this.createStatistics('graph', this.metaData, labels, monikers.map((row): MonikerStatistics => {
+			return { scheme: row.scheme, kind: row.kind !== null ? row.kind : undefined, count: row.count };
+		}));
+	}
+
+	public *elements(): IterableIterator<Vertex | Edge> {
+		// Use a connection of our own. The statement stays open while the caller
+		// consumes the elements and would otherwise block all other requests.
+		const db = new Sqlite(this.db.name, { readonly: true });
+		try {
+			const vertexLabels = GraphStore.reverse(this.vertexLabels);
+			const edgeLabels = GraphStore.reverse(this.edgeLabels);
+			const itemEdgeProperties = GraphStore.reverse(this.itemEdgeProperties);
+			const metaDataLabel = this.getVertexLabel(VertexLabels.metaData);
+			if (db.prepare('Select id From vertices Where label = ?').get(metaDataLabel) === undefined) {
+				// Older databases only store the meta data in the meta table.
+				yield Object.assign({}, this.metaData, { compressors: undefined });
+			}
+			// Ids aren't necessarily ascending, they can even be strings. So the rows are read in
+			// insertion order. Every table numbers its rows on its own which puts the vertices
+			// first, followed by the edges and the item edges.
+			/* eslint-disable indent */
+			const stmt = db.prepare([
+				`Select v.id, ${ElementKind.vertex} as kind, v.rowid as seq, v.label, v.value, Null as outV, Null as inV, Null as document, Null as property, c.content From vertices v`,
+					'Left Join documents d On d.id = v.id',
+					'Left Join contents c On c.documentHash = d.documentHash',
+				'Union All',
+				`Select e.id, ${ElementKind.edge}, e.rowid, e.label, Null, e.outV, e.inV, Null, Null, Null From edges e`,
+				'Union All',
+				`Select i.id, ${ElementKind.item}, i.rowid, Null, Null, i.outV, i.inV, i.document, i.property, Null From items i`,
+				'Order By 2, 3'
+			].join(' '));
+			/* eslint-enable indent */
+			let edge: (Edge & { inVs?: Id[] }) | undefined;
+			for (const row of stmt.iterate() as IterableIterator<ElementResult>) {
+				if (edge !== undefined && edge.id === row.id && edge.inVs !== undefined) {
+					edge.inVs.push(row.inV!);
+					continue;
+				}
+				if (edge !== undefined) {
+					yield edge;
+					edge = undefined;
+				}
+				if (row.kind === ElementKind.vertex) {
+					yield this.asVertex(row, vertexLabels);
+				} else {
+					edge = this.asEdge(row, edgeLabels, itemEdgeProperties);
+				}
+			}
+			if (edge !== undefined) {
+				yield edge;
+			}
+		} finally {
+			db.close();
+		}
+	}
+
+	private asVertex(row: ElementResult, vertexLabels: Map<number | string, string>): Vertex {
+		const result = this.decompress(JSON.parse(row.value!));
+		if (result.id === undefined) {
+			result.id = row.id;
+		}
+		if (result.type === undefined) {
+			result.type = ElementTypes.vertex;
+		}
+		if (result.label === undefined) {
+			result.label = GraphStore.longForm(vertexLabels, row.label!);
+		}
+		// The contents of documents are stored in the contents table.
+		if (result.label === VertexLabels.document && result.contents === undefined && row.content !== null && row.content.length > 0) {
+			result.contents = Buffer.from(row.content).toString('base64');
+		}
+		return result;
+	}
+
+	private asEdge(row: ElementResult, edgeLabels: Map<number | string, string>, itemEdgeProperties: Map<number | string, string>): Edge & { inVs?: Id[] } {
+		const label = row.kind === ElementKind.item ? EdgeLabels.item : GraphStore.longForm(edgeLabels, row.label!);
+		const result: any = { id: row.id, type: ElementTypes.edge, label, outV: row.outV };
+		if (oneToNEdgeLabels.has(label)) {
+			result.inVs = [row.inV];
+		} else {
+			result.inV = row.inV;
+		}
+		if (row.kind === ElementKind.item) {
+			if (row.document !== null) {
+				result.shard = row.document;
+			}
+			if (row.property !== null) {
+				result.property = GraphStore.longForm(itemEdgeProperties, row.property);
+			}
+		}
+		return result;
+	}
+
+	private static reverse(values: Map<string, number> | undefined): Map<number | string, string> {
+		const result: Map<number | string, string> = new Map();
+		if (values !== undefined) {
+			for (const [key, value] of values) {
+				result.set(value, key);
+			}
+		}
+		return result;
+	}
+
+	private static longForm(values: Map<number | string, string>, value: number | string): any {
+		const result = values.get(value);
+		return result !== undefined ? result : value;
+	}
+
 	protected getDocumentInfos(): DocumentInfo[] {
 		let result: DocumentInfoResult[] = this.allDocumentsStmt.all() as DocumentInfoResult[];
 		if (result === undefined) {
@@ -567,6 +844,67 @@ export class GraphStore extends Database {
 		return result.map((item) => { return { id: item.id, uri: item.uri, hash: item.documentHash }; });
 	}
 
+	protected getProjects(): ProjectOutline[] {
+		const rows = this.findProjectsStmt.all({ contains: this.getEdgeLabel(EdgeLabels.contains), project: this.getVertexLabel(VertexLabels.project) }) as ProjectResult[];
+		const result: ProjectOutline[] = [];
+		let current: ProjectOutline | undefined;
+		for (const row of rows) {
+			if (current === undefined || current.id !== row.id) {
+				const project = this.decompress(JSON.parse(row.value));
+				current = { id: row.id, name: project.name !== undefined ? project.name : project.kind, documents: [] };
+				result.push(current);
+			}
+			if (row.uri !== null) {
+				current.documents.push(row.uri);
+			}
+		}
+		return result;
+	}
+
+	public listMonikers(scheme: string, kind: MonikerKind): MonikerLocation[] {
+		const rows = this.listMonikersStmt.all({ scheme, kind }) as MonikerResult[];
+		// Monikers with the same identifier are listed once.
+		const result: MonikerLocation[] = [];
+		for (const row of rows) {
+			let last = result.length > 0 ? result[result.length - 1] : undefined;
+			if (last === undefined || last.identifier !== row.identifier) {
+				if (result.length === Database.maxListedMonikers) {
+					break;
+				}
+				last = { identifier: row.identifier };
+				result.push(last);
+			}
+			if (last.location === undefined) {
+				last.location = this.findMonikerLocation(this.decompress(JSON.parse(row.value)));
+			}
+		}
+		return result;
+	}
+
+	private findMonikerLocation(moniker: Moniker): lsp.Location | undefined {
+		const vertexId = this.findVertexIdForMoniker(moniker);
+		if (vertexId === undefined) {
+			return undefined;
+		}
+		const [definitionResult] = this.getResultForId(vertexId, EdgeLabels.textDocument_definition);
+		let range: LocationResult | undefined = definitionResult !== undefined
+			? this.findRangeFromResult.get({ id: definitionResult.id }) as LocationResult | undefined
+			: undefined;
+		if (range === undefined) {
+			const [referenceResult] = this.getResultForId(vertexId, EdgeLabels.textDocument_references);
+			range = referenceResult !== undefined
+				? this.findRangeFromReferenceResult.get({ id: referenceResult.id }) as LocationResult | undefined
+				: undefined;
+		}
+		if (range === undefined) {
+			// The moniker might be attached to a range directly.
+			const locationRetriever = new LocationRetriever(this.db, 1);
+			locationRetriever.add(vertexId);
+			range = locationRetriever.run()[0];
+		}
+		return range !== undefined ? this.createLocation(range) : undefined;
+	}
+
 	protected findFile(uri: string): { id: Id, hash: string | undefined } | undefined {
 		let result = this.findDocumentStmt.get(uri) as any;
 		return result;
@@ -636,6 +974,67 @@ export class GraphStore extends Database {
 		}
 	}
 
+	public diagnostics(uri: string): lsp.Diagnostic[] | undefined {
+		let diagnosticResult = this.getResultForDocument(this.toDatabase(uri), EdgeLabels.textDocument_diagnostic);
+		if (diagnosticResult === undefined) {
+			return undefined;
+		}
+		return diagnosticResult.result;
+	}
+
+	public documentLinks(uri: string): lsp.DocumentLink[] | undefined {
+		let documentLinkResult = this.getResultForDocument(this.toDatabase(uri), EdgeLabels.textDocument_documentLink);
+		if (documentLinkResult === undefined) {
+			return undefined;
+		}
+		return documentLinkResult.result.map(item => this.asDocumentLink(item));
+	}
+
+	public workspaceSymbols(query: string): lsp.SymbolInformation[] {
+		// An empty query would list every symbol of the database.
+		if (query.length === 0) {
+			return [];
+		}
+		const result: lsp.SymbolInformation[] = [];
+		const pattern = GraphStore.asLikePattern(query);
+		const dedup: Set<string> = new Set();
+		const add = (symbol: lsp.SymbolInformation): void => {
+			const range = symbol.location.range;
+			const key = `${symbol.location.uri}|${range.start.line}|${range.start.character}|${symbol.name}`;
+			if (!dedup.has(key)) {
+				dedup.add(key);
+				result.push(symbol);
+			}
+		};
+
+		// Symbols from range tags.
+		const ranges: SymbolResult[] = this.findSymbolRangesStmt.all({ label: this.getVertexLabel(VertexLabels.range), pattern }) as SymbolResult[];
+		for (const item of ranges) {
+			const range: Range = this.decompress(JSON.parse(item.value));
+			if (range.tag === undefined || !Database.matchesQuery(query, range.tag.text)) {
+				continue;
+			}
+			const symbol = this.asSymbolInformation(range, this.fromDatabase(item.uri));
+			if (symbol !== undefined) {
+				add(symbol);
+			}
+		}
+
+		// Symbols from document symbol results not based on ranges. Range based
+		// results are covered by the range tags above.
+		const symbolResults: SymbolResult[] = this.findSymbolResultsStmt.all({ label: this.getEdgeLabel(EdgeLabels.textDocument_documentSymbol), pattern }) as SymbolResult[];
+		for (const item of symbolResults) {
+			const symbolResult: DocumentSymbolResult = this.decompress(JSON.parse(item.value));
+			if (symbolResult.result.length === 0 || !lsp.DocumentSymbol.is(symbolResult.result[0])) {
+				continue;
+			}
+			const symbols: lsp.SymbolInformation[] = [];
+			this.collectSymbols(symbols, query, this.fromDatabase(item.uri), symbolResult.result as lsp.DocumentSymbol[]);
+			symbols.forEach(add);
+		}
+		return result;
+	}
+
 	public hover(uri: string, position: lsp.Position): lsp.Hover | undefined {
 		const ranges = this.findRange(this.toDatabase(uri), position);
 		if (ranges === undefined) {
@@ -751,6 +1150,61 @@ export class GraphStore extends Database {
 		return undefined;
 	}
 
+	public typeDefinitions(uri: string, position: lsp.Position): lsp.Location | lsp.Location[] | undefined {
+		const ranges = this.findRange(this.toDatabase(uri), position);
+		if (ranges === undefined) {
+			return undefined;
+		}
+
+		const addTypeDefinitions = (result: lsp.Location[], typeDefinitionResult: TypeDefinitionResult): void => {
+			const queryResult: LocationResult[] = this.findRangeFromResult.all({ id: typeDefinitionResult.id }) as LocationResult[];
+			if (queryResult && queryResult.length > 0) {
+				for(let item of queryResult) {
+					result.push(this.createLocation(item));
+				}
+			}
+		};
+
+		const findTypeDefinitions = (range: RangeResult): lsp.Location | lsp.Location[] | undefined => {
+			const [typeDefinitionResult, anchorId] = this.getResultForId(range.id, EdgeLabels.textDocument_typeDefinition);
+			const result: lsp.Location[] = [];
+			if (typeDefinitionResult !== undefined) {
+				addTypeDefinitions(result, typeDefinitionResult);
+				return result;
+			}
+
+			// No local result. Try to find the type definition via a matching moniker.
+			const monikers: Map<Id, Moniker> = new Map();
+			this.findMonikersForVertex(monikers, anchorId);
+			for (const moniker of monikers.values()) {
+				if (moniker.kind === MonikerKind.local) {
+					continue;
+				}
+				const matchingMonikers = this.findMatchingMonikers(moniker);
+				for (const matchingMoniker of matchingMonikers) {
+					const vertexId = this.findVertexIdForMoniker(matchingMoniker);
+					if (vertexId === undefined) {
+						continue;
+					}
+					const [typeDefinitionResult] = this.getResultForId(vertexId, EdgeLabels.textDocument_typeDefinition);
+					if (typeDefinitionResult === undefined) {
+						continue;
+					}
+					addTypeDefinitions(result, typeDefinitionResult);
+				}
+			}
+			return result.length > 0 ? result : undefined;
+		};
+
+		for (const range of ranges) {
+			const result = findTypeDefinitions(range);
+			if (result !== undefined) {
+				return result;
+			}
+		}
+		return undefined;
+	}
+
 	public references(uri: string, position: lsp.Position, context: lsp.ReferenceContext): lsp.Location[] | undefined {
 		const ranges = this.findRange(this.toDatabase(uri), position);
 		if (ranges === undefined) {
@@ -824,6 +1278,224 @@ export class GraphStore extends Database {
 		}
 	}
 
+	public implementations(uri: string, position: lsp.Position): lsp.Location[] | undefined {
+		const ranges = this.findRange(this.toDatabase(uri), position);
+		if (ranges === undefined) {
+			return undefined;
+		}
+
+		const result: lsp.Location[] = [];
+		const monikers: Map<Id, Moniker> = new Map();
+		const dedupRanges = new Set<Id>();
+
+		const findImplementations = (result: lsp.Location[], dedupRanges: Set<Id>, monikers: Map<Id, Moniker>, range: RangeResult): void => {
+			const [implementationResult, anchorId] = this.getResultForId(range.id, EdgeLabels.textDocument_implementation);
+			if (implementationResult !== undefined) {
+				this.resolveImplementationResult(result, dedupRanges, monikers, implementationResult);
+			}
+			this.findMonikersForVertex(monikers, anchorId);
+			for (const moniker of monikers.values()) {
+				if (moniker.kind === MonikerKind.local) {
+					continue;
+				}
+				const matchingMonikers = this.findMatchingMonikers(moniker);
+				for (const matchingMoniker of matchingMonikers) {
+					const vertexId = this.findVertexIdForMoniker(matchingMoniker);
+					if (vertexId === undefined) {
+						continue;
+					}
+					const [implementationResult] = this.getResultForId(vertexId, EdgeLabels.textDocument_implementation);
+					if (implementationResult === undefined) {
+						continue;
+					}
+					this.resolveImplementationResult(result, dedupRanges, monikers, implementationResult);
+				}
+			}
+		};
+
+		for (const range of ranges) {
+			findImplementations(result, dedupRanges, monikers, range);
+		}
+
+		return result;
+	}
+
+	private resolveImplementationResult(result: lsp.Location[], dedupRanges: Set<Id>, monikers: Map<Id, Moniker>, implementationResult: ImplementationResult): void {
+		const qr: LocationResult[] = this.findRangeFromResult.all({ id: implementationResult.id }) as LocationResult[];
+		if (qr && qr.length > 0) {
+			for (const item of qr) {
+				if (!dedupRanges.has(item.id)) {
+					dedupRanges.add(item.id);
+					result.push(this.createLocation(item));
+				}
+			}
+		}
+
+		const mr: VertexResult[] = this.findVerticesFromResult.all({ id: implementationResult.id, property: this.getItemEdgeProperty(ItemEdgeProperties.implementationLinks) }) as VertexResult[];
+		if (mr) {
+			for (const moniker of mr) {
+				if (!monikers.has(moniker.id)) {
+					monikers.set(moniker.id, this.decompress(JSON.parse(moniker.value)));
+				}
+			}
+		}
+
+		const rqr: VertexResult[] = this.findVerticesFromResult.all({ id: implementationResult.id, property: this.getItemEdgeProperty(ItemEdgeProperties.implementationResults) }) as VertexResult[];
+		if (rqr && rqr.length > 0) {
+			for (const item of rqr) {
+				this.resolveImplementationResult(result, dedupRanges, monikers, this.decompress(JSON.parse(item.value)));
+			}
+		}
+	}
+
+	public inspect(uri: string, position: lsp.Position): InspectedElement[] | undefined {
+		const ranges = this.findRange(this.toDatabase(uri), position);
+		if (ranges === undefined) {
+			return undefined;
+		}
+		const context: InspectContext = {
+			vertexLabels: GraphStore.reverse(this.vertexLabels),
+			edgeLabels: GraphStore.reverse(this.edgeLabels),
+			itemEdgeProperties: GraphStore.reverse(this.itemEdgeProperties),
+			path: new Set()
+		};
+		const vertexRetriever = new VertexRetriever(this.db);
+		vertexRetriever.addMany(ranges.map(range => range.id));
+		return vertexRetriever.run().map(vertex => this.inspectVertex(vertex, undefined, context));
+	}
+
+	private inspectVertex(vertex: VertexResult, edge: string | undefined, context: InspectContext): InspectedElement {
+		const label: string = GraphStore.longForm(context.vertexLabels, vertex.label);
+		const properties = this.decompress(JSON.parse(vertex.value));
+		const result: InspectedElement = { id: vertex.id, label, edge, description: Database.describeVertex(label, properties), properties };
+		if (label === VertexLabels.range) {
+			result.location = this.asLocation(vertex.id);
+		}
+		// Ranges reached over an edge are the targets of a result. Their own edges
+		// belong to a different symbol. The path guards against next cycles.
+		if ((edge !== undefined && label === VertexLabels.range) || context.path.has(vertex.id)) {
+			return result;
+		}
+		context.path.add(vertex.id);
+		const children: InspectedElement[] = [];
+		const items: InspectEdgeResult[] = [];
+		for (const row of this.inspectEdgesStmt.all({ source: vertex.id }) as InspectEdgeResult[]) {
+			if (row.edge !== null) {
+				children.push(this.inspectVertex(row, GraphStore.longForm(context.edgeLabels, row.edge), context));
+			} else {
+				items.push(row);
+			}
+		}
+		if (label === VertexLabels.moniker) {
+			for (const row of this.findAttachedMonikersStmt.all({ source: vertex.id }) as VertexResult[]) {
+				children.push(this.inspectVertex(row, `${EdgeLabels.attach} (incoming)`, context));
+			}
+		}
+		children.push(...Database.inspectItems(items, (row) => {
+			const edgeLabel = row.property !== null ? `${EdgeLabels.item} (${GraphStore.longForm(context.itemEdgeProperties, row.property)})` : EdgeLabels.item;
+			return this.inspectVertex(row, edgeLabel, context);
+		}));
+		context.path.delete(vertex.id);
+		if (children.length > 0) {
+			result.children = children;
+		}
+		return result;
+	}
+
+	public monikers(uri: string, position: lsp.Position): MonikerInfo[] {
+		const ranges = this.findRange(this.toDatabase(uri), position);
+		if (ranges === undefined) {
+			return [];
+		}
+		const monikers: Map<Id, Moniker> = new Map();
+		for (const range of ranges) {
+			let currentId: Id | undefined = range.id;
+			const visited: Set<Id> = new Set();
+			while (currentId !== undefined && !visited.has(currentId)) {
+				visited.add(currentId);
+				const moniker = this.findMonikerStmt.get({ source: currentId }) as VertexResult | undefined;
+				if (moniker !== undefined) {
+					this.collectAttachedMonikers(monikers, this.decompress(JSON.parse(moniker.value)));
+				}
+				const next = this.findNextVertexStmt.get({ source: currentId }) as NextResult | undefined;
+				currentId = next !== undefined ? next.inV : undefined;
+			}
+		}
+		return Array.from(monikers.values()).map((moniker) => {
+			return {
+				scheme: moniker.scheme, identifier: moniker.identifier, kind: moniker.kind,
+				packageInformation: this.findPackageInformation(moniker.id)
+			};
+		});
+	}
+
+	private findPackageInformation(monikerId: Id): PackageInfo | undefined {
+		const result = this.findResultStmt.get({ source: monikerId, label: this.getEdgeLabel(EdgeLabels.packageInformation) }) as VertexResult | undefined;
+		return result !== undefined ? Database.asPackageInfo(this.decompress(JSON.parse(result.value))) : undefined;
+	}
+
+	private collectAttachedMonikers(result: Map<Id, Moniker>, moniker: Moniker): void {
+		if (result.has(moniker.id)) {
+			return;
+		}
+		result.set(moniker.id, moniker);
+		for (const attached of this.findAttachedMonikersStmt.all({ source: moniker.id }) as VertexResult[]) {
+			this.collectAttachedMonikers(result, this.decompress(JSON.parse(attached.value)));
+		}
+	}
+
+	public findByMoniker(scheme: string, identifier: string, packageInformation?: PackageInfo): MonikerResults | undefined {
+		let monikers = this.findMonikersByIdentifierStmt.all({ scheme, identifier }) as VertexResult[];
+		if (packageInformation !== undefined) {
+			monikers = monikers.filter(moniker => Database.isSamePackage(packageInformation, this.findPackageInformation(moniker.id)));
+		}
+		if (monikers.length === 0) {
+			return undefined;
+		}
+		const result: MonikerResults = { declarations: [], definitions: [], references: [] };
+		const dedupDeclarations: Set<Id> = new Set();
+		const dedupDefinitions: Set<Id> = new Set();
+		const dedupReferences: Set<Id> = new Set();
+		const addLocations = (locations: lsp.Location[], dedup: Set<Id>, resultId: Id): void => {
+			for (const item of this.findRangeFromResult.all({ id: resultId }) as LocationResult[]) {
+				if (!dedup.has(item.id)) {
+					dedup.add(item.id);
+					locations.push(this.createLocation(item));
+				}
+			}
+		};
+		for (const row of monikers) {
+			const moniker: Moniker = this.decompress(JSON.parse(row.value));
+			const vertexId = this.findVertexIdForMoniker(moniker);
+			if (vertexId === undefined) {
+				continue;
+			}
+			const [referenceResult] = this.getResultForId(vertexId, EdgeLabels.textDocument_references);
+			if (referenceResult !== undefined) {
+				this.resolveReferenceResult(result.references, dedupReferences, new Map(), referenceResult, { includeDeclaration: false });
+			}
+			// An import moniker only tells where the symbol is used.
+			if (moniker.kind !== MonikerKind.export) {
+				continue;
+			}
+			const [declarationResult] = this.getResultForId(vertexId, EdgeLabels.textDocument_declaration);
+			if (declarationResult !== undefined) {
+				addLocations(result.declarations, dedupDeclarations, declarationResult.id);
+			}
+			const [definitionResult] = this.getResultForId(vertexId, EdgeLabels.textDocument_definition);
+			if (definitionResult !== undefined) {
+				addLocations(result.definitions, dedupDefinitions, definitionResult.id);
+			}
+			if (result.hover === undefined) {
+				const [hoverResult] = this.getResultForId(vertexId, EdgeLabels.textDocument_hover);
+				if (hoverResult !== undefined && hoverResult.result !== undefined) {
+					result.hover = { contents: hoverResult.result.contents };
+				}
+			}
+		}
+		return result;
+	}
+
 	private findMonikersForVertex(monikers: Map<Id, Moniker>, id: Id): void {
 		let currentId: Id = id;
 		let moniker: VertexResult | undefined;
@@ -899,10 +1571,54 @@ export class GraphStore extends Database {
 		return result;
 	}
 
+	protected findRangesInRange(uri: string, range: lsp.Range): lsp.Range[] {
+		const dbResult: RangeResult[] = this.findRangesInRangeStmt.all({
+			uri: this.toDatabase(uri),
+			startLine: range.start.line, startCharacter: range.start.character,
+			endLine: range.end.line, endCharacter: range.end.character
+		}) as RangeResult[];
+		return dbResult.map(item => lsp.Range.create(item.startLine, item.startCharacter, item.endLine, item.endCharacter));
+	}
+
+	protected findDocumentRanges(uri: string): Range[] | undefined {
+		const document = this.findDocumentStmt.get(this.toDatabase(uri)) as { id: Id } | undefined;
+		if (document === undefined) {
+			return undefined;
+		}
+		const dbResult = this.findDocumentRangesStmt.all(document.id) as { value: string }[];
+		return dbResult.map(item => this.decompress(JSON.parse(item.value)) as Range);
+	}
+
+	protected findDocumentDefinitions(uri: string, keys: Set<string>): Map<string, lsp.Location[]> {
+		const result: Map<string, lsp.Location[]> = new Map();
+		// Ranges sharing a result set share the definition result.
+		const definitionResults: Map<Id, lsp.Location[]> = new Map();
+		for (const range of this.findDocumentRanges(uri) ?? []) {
+			const key = Database.makeRangeKey(range);
+			if (!keys.has(key)) {
+				continue;
+			}
+			const [definitionResult] = this.getResultForId(range.id, EdgeLabels.textDocument_definition);
+			if (definitionResult === undefined) {
+				continue;
+			}
+			let locations = definitionResults.get(definitionResult.id);
+			if (locations === undefined) {
+				const queryResult: LocationResult[] = this.findRangeFromResult.all({ id: definitionResult.id }) as LocationResult[];
+				locations = queryResult.map(item => this.createLocation(item));
+				definitionResults.set(definitionResult.id, locations);
+			}
+			result.set(key, locations);
+		}
+		return result;
+	}
+
 	private getResultForId(id: Id, label: EdgeLabels.textDocument_hover): [HoverResult  | undefined, Id];
 	private getResultForId(id: Id, label: EdgeLabels.textDocument_declaration): [DeclarationResult | undefined, Id];
 	private getResultForId(id: Id, label: EdgeLabels.textDocument_definition): [DefinitionResult | undefined, Id];
+	private getResultForId(id: Id, label: EdgeLabels.textDocument_typeDefinition): [TypeDefinitionResult | undefined, Id];
 	private getResultForId(id: Id, label: EdgeLabels.textDocument_references): [ReferenceResult | undefined, Id];
+	private getResultForId(id: Id, label: EdgeLabels.textDocument_implementation): [ImplementationResult | undefined, Id];
 	private getResultForId(id: Id, label: EdgeLabels): [any | undefined, Id] {
 		let currentId = id;
 		let result: VertexResult | undefined;
@@ -932,6 +1648,14 @@ export class GraphStore extends Database {
 		return result !== undefined ? result : label;
 	}
 
+	private getVertexLabel(label: VertexLabels): VertexLabels | number {
+		if (this.vertexLabels === undefined) {
+			return label;
+		}
+		let result = this.vertexLabels.get(label);
+		return result !== undefined ? result : label;
+	}
+
 	private getItemEdgeProperty(prop: ItemEdgeProperties): ItemEdgeProperties | number {
 		if (this.itemEdgeProperties === undefined) {
 			return prop;
@@ -981,6 +1705,8 @@ export class GraphStore extends Database {
 
 	private getResultForDocument(uri: string, label: EdgeLabels.textDocument_documentSymbol): DocumentSymbolResult | undefined;
 	private getResultForDocument(uri: string, label: EdgeLabels.textDocument_foldingRange): FoldingRangeResult | undefined;
+	private getResultForDocument(uri: string, label: EdgeLabels.textDocument_diagnostic): DiagnosticResult | undefined;
+	private getResultForDocument(uri: string, label: EdgeLabels.textDocument_documentLink): DocumentLinkResult | undefined;
 	private getResultForDocument(uri: string, label: EdgeLabels): any | undefined {
 		let data: DocumentResult = this.findResultForDocumentStmt.get({ uri, label: this.getEdgeLabel(label) }) as DocumentResult;
 		if (data === undefined) {
@@ -989,9 +1715,17 @@ export class GraphStore extends Database {
 		return this.decompress(JSON.parse(data.value));
 	}
 
+	private static asLikePattern(query: string): string {
+		let result = '%';
+		for (const ch of query) {
+			result += (ch === '%' || ch === '_' || ch === '\\') ? `\\${ch}%` : `${ch}%`;
+		}
+		return result;
+	}
+
 	private decompress(value: any): any {
 		if (Array.isArray(value)) {
-			let decompressor = Decompressor.get(value[0]);
+			let decompressor = this.decompressors.get(value[0]);
 			if (decompressor) {
 				return decompressor.decompress(value);
 			}
@@ -0,0 +1,775 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+
+import * as Sqlite from 'better-sqlite3';
+
+import {
+	Id, Vertex, Edge, Document, Range, Moniker, MetaData, HoverResult, DocumentSymbolResult, FoldingRangeResult, DiagnosticResult, DocumentLinkResult,
+	ElementTypes, VertexLabels, EdgeLabels, ItemEdgeProperties, MonikerKind
+} from 'lsif-protocol';
+
+import { CompressorDescription, CompressionKind, MetaData as CompressedMetaData } from './protocol.compress';
+import { DocumentBlob, RangeData, ResultSetData, ReferenceResultData } from './blobStore';
+import { DumpReaderOptions, readDump } from './dumpReader';
+
+export type ImportFormat = 'graph' | 'blob';
+
+export interface ImportOptions extends DumpReaderOptions {
+	format: ImportFormat;
+
+	/**
+	 * The version tag to use for the blob format. Defaults to the name of the dump.
+	 */
+	tag?: string;
+}
+
+export interface ImportSummary {
+	format: ImportFormat;
+	vertices: number;
+	edges: number;
+	documents: number;
+	ranges: number;
+	resultSets: number;
+	monikers: number;
+}
+
+/**
+ * Imports a LSIF dump into a new SQLite database. An existing database at `output`
+ * is replaced. If the import fails no database is left behind.
+ */
+export function importDump(input: string, output: string, options: ImportOptions): Promise<ImportSummary> {
+	if (fs.existsSync(output)) {
+		fs.unlinkSync(output);
+	}
+	const db = new Sqlite(output);
+	let importer: Importer;
+	try {
+		importer = options.format === 'blob'
+			? new BlobImporter(db, options.tag !== undefined ? options.tag : path.basename(input))
+			: new GraphImporter(db);
+	} catch (error) {
+		db.close();
+		fs.unlinkSync(output);
+		throw error;
+	}
+	return readDump(input, options, (line) => importer.insert(JSON.parse(line))).then(() => {
+		importer.finish();
+		db.close();
+		return importer.summary;
+	}).then(undefined, (error) => {
+		if (db.open) {
+			db.close();
+		}
+		fs.unlinkSync(output);
+		throw error;
+	});
+}
+
+abstract class Importer {
+
+	public readonly summary: ImportSummary;
+	protected db: Sqlite.Database;
+
+	protected constructor(db: Sqlite.Database, format: ImportFormat, schema: string[]) {
+		this.db = db;
+		this.summary = { format, vertices: 0, edges: 0, documents: 0, ranges: 0, resultSets: 0, monikers: 0 };
+		this.db.pragma('synchronous = OFF');
+		this.db.pragma('journal_mode = MEMORY');
+		for (const stmt of schema) {
+			this.db.exec(stmt);
+		}
+		this.db.prepare('Insert Into format (format) Values (?)').run(format);
+		this.db.exec('Begin Transaction');
+	}
+
+	public insert(element: Vertex | Edge): void {
+		switch (element.type) {
+			case ElementTypes.vertex:
+				this.summary.vertices++;
+				switch (element.label) {
+					case VertexLabels.document:
+						this.summary.documents++;
+						break;
+					case VertexLabels.range:
+						this.summary.ranges++;
+						break;
+					case VertexLabels.resultSet:
+						this.summary.resultSets++;
+						break;
+					case VertexLabels.moniker:
+						this.summary.monikers++;
+						break;
+				}
+				this.insertVertex(element);
+				break;
+			case ElementTypes.edge:
+				this.summary.edges++;
+				this.insertEdge(element);
+				break;
+		}
+	}
+
+	public finish(): void {
+		try {
+			this.doFinish();
+			this.db.exec('Commit');
+		} catch (error) {
+			this.db.exec('Rollback');
+			throw error;
+		}
+	}
+
+	protected abstract insertVertex(vertex: Vertex): void;
+
+	protected abstract insertEdge(edge: Edge): void;
+
+	protected abstract doFinish(): void;
+
+	protected static inVs(edge: Edge): Id[] {
+		return Edge.is1N(edge) ? edge.inVs : [(edge as { inV: Id }).inV];
+	}
+
+	protected static hash(value: string | Buffer): string {
+		return crypto.createHash('md5').update(value).digest('base64');
+	}
+}
+
+const graphSchema: string[] = [
+	'Create Table format (format Text Not Null)',
+	'Create Table meta (id Integer Unique Primary Key, value Text Not Null)',
+	'Create Table vertices (id Integer Unique Not Null, label Integer Not Null, value Text Not Null)',
+	'Create Table edges (id Integer Not Null, label Integer Not Null, outV Integer Not Null, inV Integer Not Null)',
+	'Create Table items (id Integer Not Null, outV Integer Not Null, inV Integer Not Null, document Integer, property Integer)',
+	'Create Table ranges (id Integer Unique Not Null, belongsTo Integer Not Null, startLine Integer Not Null, startCharacter Integer Not Null, endLine Integer Not Null, endCharacter Integer Not Null)',
+	'Create Table documents (uri Text Not Null, id Integer Unique Not Null, documentHash Text Not Null)',
+	'Create Table contents (documentHash Text Unique Primary Key, content Blob Not Null)',
+	'Create Table monikers (identifier Text Not Null, scheme Text Not Null, kind Text, id Integer Unique Not Null)'
+];
+
+const graphIndices: string[] = [
+	'Create Index vertices_label On vertices (label)',
+	'Create Index edges_outv On edges (outV, label)',
+	'Create Index edges_inv On edges (inV, label)',
+	'Create Index items_outv On items (outV)',
+	'Create Index items_inv On items (inV)',
+	'Create Index ranges_index On ranges (belongsTo, startLine, endLine, startCharacter, endCharacter)',
+	'Create Index documents_uri On documents (uri)',
+	'Create Index monikers_index On monikers (identifier, scheme)'
+];
+
+/**
+ * The reference queries of the `GraphStore` use these numbers directly.
+ */
+const itemEdgeProperties: [string, number][] = [
+	[ItemEdgeProperties.declarations, 1],
+	[ItemEdgeProperties.definitions, 2],
+	[ItemEdgeProperties.references, 3],
+	[ItemEdgeProperties.referenceResults, 4],
+	[ItemEdgeProperties.referenceLinks, 5],
+	[ItemEdgeProperties.implementationResults, 6],
+	[ItemEdgeProperties.implementationLinks, 7]
+];
+
+/**
+ * Writes the graph schema read by the `GraphStore`. Vertex values are stored as
+ * plain JSON. Only labels and item edge properties are stored in their short form
+ * which is described by compressors in the meta data.
+ */
+class GraphImporter extends Importer {
+
+	private vertexLabels: Map<string, number>;
+	private edgeLabels: Map<string, number>;
+	private itemEdgeProperties: Map<string, number>;
+
+	private metaData: MetaData | undefined;
+	private hasSource: boolean;
+	private rootUri: string | undefined;
+	private nextId: number;
+	private documents: Set<Id>;
+	private ranges: Map<Id, Range>;
+
+	private insertVertexStmt: Sqlite.Statement;
+	private insertEdgeStmt: Sqlite.Statement;
+	private insertItemStmt: Sqlite.Statement;
+	private insertRangeStmt: Sqlite.Statement;
+	private insertDocumentStmt: Sqlite.Statement;
+	private insertContentStmt: Sqlite.Statement;
+	private insertMonikerStmt: Sqlite.Statement;
+
+	public constructor(db: Sqlite.Database) {
+		super(db, 'graph', graphSchema);
+		// The GraphStore expects a short form for every protocol label.
+		this.vertexLabels = new Map();
+		for (const key of Object.keys(VertexLabels)) {
+			GraphImporter.getShortForm(this.vertexLabels, (VertexLabels as any)[key]);
+		}
+		this.edgeLabels = new Map();
+		for (const key of Object.keys(EdgeLabels)) {
+			GraphImporter.getShortForm(this.edgeLabels, (EdgeLabels as any)[key]);
+		}
+		this.itemEdgeProperties = new Map(itemEdgeProperties);
+		this.hasSource = false;
+		this.nextId = 1;
+		this.documents = new Set();
+		this.ranges = new Map();
+
+		this.insertVertexStmt = this.db.prepare('Insert Into vertices (id, label, value) Values (?, ?, ?)');
+		this.insertEdgeStmt = this.db.prepare('Insert Into edges (id, label, outV, inV) Values (?, ?, ?, ?)');
+		this.insertItemStmt = this.db.prepare('Insert Into items (id, outV, inV, document, property) Values (?, ?, ?, ?, ?)');
+		this.insertRangeStmt = this.db.prepare('Insert Into ranges (id, belongsTo, startLine, startCharacter, endLine, endCharacter) Values (?, ?, ?, ?, ?, ?)');
+		this.insertDocumentStmt = this.db.prepare('Insert Into documents (uri, id, documentHash) Values (?, ?, ?)');
+		this.insertContentStmt = this.db.prepare('Insert Or Ignore Into contents (documentHash, content) Values (?, ?)');
+		this.insertMonikerStmt = this.db.prepare('Insert Into monikers (identifier, scheme, kind, id) Values (?, ?, ?, ?)');
+	}
+
+	protected insertVertex(vertex: Vertex): void {
+		if (typeof vertex.id === 'number' && vertex.id >= this.nextId) {
+			this.nextId = vertex.id + 1;
+		}
+		let value: Vertex = vertex;
+		switch (vertex.label) {
+			case VertexLabels.metaData:
+				this.metaData = vertex;
+				break;
+			case VertexLabels.source:
+				this.hasSource = true;
+				break;
+			case VertexLabels.document:
+				// The content is stored in the contents table.
+				value = Object.assign({}, vertex, { contents: undefined });
+				this.insertDocument(vertex);
+				break;
+			case VertexLabels.range:
+				this.ranges.set(vertex.id, vertex);
+				break;
+			case VertexLabels.moniker:
+				this.insertMonikerStmt.run(vertex.identifier, vertex.scheme, vertex.kind !== undefined ? vertex.kind : null, vertex.id);
+				break;
+			default:
+				if ((vertex as { label: string }).label === 'group' && (vertex as { rootUri?: string }).rootUri !== undefined) {
+					this.rootUri = (vertex as { rootUri?: string }).rootUri;
+				}
+		}
+		this.insertVertexStmt.run(vertex.id, GraphImporter.getShortForm(this.vertexLabels, vertex.label), JSON.stringify(value));
+	}
+
+	private insertDocument(document: Document): void {
+		const content = Buffer.from(document.contents !== undefined ? document.contents : '', 'base64');
+		const documentHash = Importer.hash(content);
+		this.documents.add(document.id);
+		this.insertDocumentStmt.run(document.uri, document.id, documentHash);
+		this.insertContentStmt.run(documentHash, content);
+	}
+
+	protected insertEdge(edge: Edge): void {
+		const inVs = Importer.inVs(edge);
+		if (edge.label === EdgeLabels.item) {
+			const document = (edge as { shard?: Id; document?: Id });
+			const documentId = document.shard !== undefined ? document.shard : document.document;
+			const property = edge.property !== undefined ? GraphImporter.getShortForm(this.itemEdgeProperties, edge.property) : null;
+			for (const inV of inVs) {
+				this.insertItemStmt.run(edge.id, edge.outV, inV, documentId !== undefined ? documentId : null, property);
+			}
+			return;
+		}
+		const label = GraphImporter.getShortForm(this.edgeLabels, edge.label);
+		for (const inV of inVs) {
+			this.insertEdgeStmt.run(edge.id, label, edge.outV, inV);
+		}
+		if (edge.label === EdgeLabels.contains && this.documents.has(edge.outV)) {
+			for (const inV of inVs) {
+				const range = this.ranges.get(inV);
+				if (range === undefined) {
+					continue;
+				}
+				this.insertRangeStmt.run(range.id, edge.outV, range.start.line, range.start.character, range.end.line, range.end.character);
+				this.ranges.delete(inV);
+			}
+		}
+	}
+
+	protected doFinish(): void {
+		if (this.metaData === undefined) {
+			throw new Error('No meta data vertex found.');
+		}
+		if (!this.hasSource) {
+			// The GraphStore reads the workspace root from the source vertex.
+			if (this.rootUri === undefined) {
+				throw new Error('No project root provided.');
+			}
+			const source = { id: this.nextId++, type: ElementTypes.vertex, label: VertexLabels.source, workspaceRoot: this.rootUri };
+			this.insertVertexStmt.run(source.id, GraphImporter.getShortForm(this.vertexLabels, source.label), JSON.stringify(source));
+		}
+		const descriptions: CompressorDescription[] = [
+			GraphImporter.createCompressor(1, 'label', this.vertexLabels),
+			GraphImporter.createCompressor(2, 'label', this.edgeLabels),
+			GraphImporter.createCompressor(3, 'property', this.itemEdgeProperties)
+		];
+		const metaData: CompressedMetaData = Object.assign({}, this.metaData, {
+			compressors: { vertexCompressor: 1, edgeCompressor: 2, itemEdgeCompressor: 3, all: descriptions }
+		});
+		this.db.prepare('Insert Into meta (id, value) Values (?, ?)').run(1, JSON.stringify(metaData));
+		for (const stmt of graphIndices) {
+			this.db.exec(stmt);
+		}
+	}
+
+	private static getShortForm(values: Map<string, number>, value: string): number {
+		let result = values.get(value);
+		if (result === undefined) {
+			// Short forms are numbered consecutively starting with 1.
+			result = values.size + 1;
+			values.set(value, result);
+		}
+		return result;
+	}
+
+	private static createCompressor(id: number, property: string, values: Map<string, number>): CompressorDescription {
+		return {
+			id,
+			parent: undefined,
+			properties: [{
+				name: property,
+				index: 0,
+				compressionKind: CompressionKind.scalar,
+				shortForm: Array.from(values.entries())
+			}]
+		};
+	}
+}
+
+const blobSchema: string[] = [
+	'Create Table format (format Text Not Null)',
+	'Create Table meta (id Integer Unique Primary Key, value Text Not Null)',
+	'Create Table blobs (hash Text Unique Primary Key, content Blob Not Null)',
+	'Create Table documents (uri Text Not Null, documentHash Text Not Null)',
+	'Create Table versionTags (tag Text Unique Primary Key, dateTime Integer Not Null)',
+	'Create Table versions (version Text Not Null, hash Text Not Null)',
+	'Create Table decls (scheme Text Not Null, identifier Text Not Null, documentHash Text Not Null, startLine Integer Not Null, startCharacter Integer Not Null, endLine Integer Not Null, endCharacter Integer Not Null)',
+	'Create Table defs (scheme Text Not Null, identifier Text Not Null, documentHash Text Not Null, startLine Integer Not Null, startCharacter Integer Not Null, endLine Integer Not Null, endCharacter Integer Not Null)',
+	'Create Table refs (scheme Text Not Null, identifier Text Not Null, documentHash Text Not Null, kind Integer Not Null, startLine Integer Not Null, startCharacter Integer Not Null, endLine Integer Not Null, endCharacter Integer Not Null)',
+	'Create Table hovers (scheme Text Not Null, identifier Text Not Null, hoverHash Text Not Null)',
+	// Needed while importing to skip duplicate rows.
+	'Create Unique Index documents_uri On documents (uri, documentHash)',
+	'Create Unique Index versions_version On versions (version, hash)',
+	'Create Unique Index hovers_moniker On hovers (identifier, scheme, hoverHash)'
+];
+
+const blobIndices: string[] = [
+	'Create Index decls_moniker On decls (identifier, scheme)',
+	'Create Index defs_moniker On defs (identifier, scheme)',
+	'Create Index refs_moniker On refs (identifier, scheme)'
+];
+
+/**
+ * The kinds stored in the refs table.
+ */
+enum ReferenceKind {
+	declaration = 0,
+	definition = 1,
+	reference = 2
+}
+
+type ResultProperty = 'hoverResult' | 'declarationResult' | 'definitionResult' | 'typeDefinitionResult' | 'referenceResult' | 'implementationResult';
+
+const resultProperties: Map<string, ResultProperty> = new Map<string, ResultProperty>([
+	[EdgeLabels.textDocument_hover, 'hoverResult'],
+	[EdgeLabels.textDocument_declaration, 'declarationResult'],
+	[EdgeLabels.textDocument_definition, 'definitionResult'],
+	[EdgeLabels.textDocument_typeDefinition, 'typeDefinitionResult'],
+	[EdgeLabels.textDocument_references, 'referenceResult'],
+	[EdgeLabels.textDocument_implementation, 'implementationResult']
+]);
+
+type FilledBlob = DocumentBlob & Required<Pick<DocumentBlob, 'resultSets' | 'monikers' | 'hovers' | 'declarationResults' | 'definitionResults' | 'typeDefinitionResults' | 'referenceResults' | 'implementationResults'>>;
+
+interface ItemTarget {
+	inV: Id;
+	property: ItemEdgeProperties | undefined;
+}
+
+/**
+ * Writes the blob schema read by the `BlobStore`. Since a document blob holds
+ * everything about a document the whole dump is read before the blobs are written.
+ * Results pointing into other documents are reachable through monikers only.
+ */
+class BlobImporter extends Importer {
+
+	private tag: string;
+	private metaData: MetaData | undefined;
+	private workspaceRoot: string | undefined;
+
+	private vertices: Map<Id, Vertex>;
+	private documents: Document[];
+	private contains: Map<Id, Id[]>;
+	private next: Map<Id, Id>;
+	private moniker: Map<Id, Id>;
+	private results: Map<Id, Map<ResultProperty, Id>>;
+	private documentResults: Map<Id, Vertex[]>;
+	private items: Map<Id, ItemTarget[]>;
+	private referenceKinds: Map<Id, Map<Id, ReferenceKind>>;
+
+	private insertBlobStmt: Sqlite.Statement;
+	private insertDocumentStmt: Sqlite.Statement;
+	private insertVersionStmt: Sqlite.Statement;
+	private insertDeclStmt: Sqlite.Statement;
+	private insertDefStmt: Sqlite.Statement;
+	private insertRefStmt: Sqlite.Statement;
+	private insertHoverStmt: Sqlite.Statement;
+
+	public constructor(db: Sqlite.Database, tag: string) {
+		super(db, 'blob', blobSchema);
+		this.tag = tag;
+		this.vertices = new Map();
+		this.documents = [];
+		this.contains = new Map();
+		this.next = new Map();
+		this.moniker = new Map();
+		this.results = new Map();
+		this.documentResults = new Map();
+		this.items = new Map();
+		this.referenceKinds = new Map();
+
+		this.insertBlobStmt = this.db.prepare('Insert Or Ignore Into blobs (hash, content) Values (?, ?)');
+		this.insertDocumentStmt = this.db.prepare('Insert Or Ignore Into documents (uri, documentHash) Values (?, ?)');
+		this.insertVersionStmt = this.db.prepare('Insert Or Ignore Into versions (version, hash) Values (?, ?)');
+		this.insertDeclStmt = this.db.prepare('Insert Into decls (scheme, identifier, documentHash, startLine, startCharacter, endLine, endCharacter) Values (?, ?, ?, ?, ?, ?, ?)');
+		this.insertDefStmt = this.db.prepare('Insert Into defs (scheme, identifier, documentHash, startLine, startCharacter, endLine, endCharacter) Values (?, ?, ?, ?, ?, ?, ?)');
+		this.insertRefStmt = this.db.prepare('Insert Into refs (scheme, identifier, documentHash, kind, startLine, startCharacter, endLine, endCharacter) Values (?, ?, ?, ?, ?, ?, ?, ?)');
+		this.insertHoverStmt = this.db.prepare('Insert Or Ignore Into hovers (scheme, identifier, hoverHash) Values (?, ?, ?)');
+	}
+
+	protected insertVertex(vertex: Vertex): void {
+		switch (vertex.label) {
+			case VertexLabels.metaData:
+				this.metaData = vertex;
+				break;
+			case VertexLabels.source:
+				this.workspaceRoot = vertex.workspaceRoot;
+				break;
+			case VertexLabels.document:
+				this.documents.push(vertex);
+				break;
+			default:
+				if ((vertex as { label: string }).label === 'group' && this.workspaceRoot === undefined) {
+					this.workspaceRoot = (vertex as { rootUri?: string }).rootUri;
+				}
+		}
+		this.vertices.set(vertex.id, vertex);
+	}
+
+	protected insertEdge(edge: Edge): void {
+		const inVs = Importer.inVs(edge);
+		switch (edge.label) {
+			case EdgeLabels.contains:
+				BlobImporter.addAll(this.contains, edge.outV, inVs);
+				break;
+			case EdgeLabels.next:
+				this.next.set(edge.outV, inVs[0]);
+				break;
+			case EdgeLabels.moniker:
+				this.moniker.set(edge.outV, inVs[0]);
+				break;
+			case EdgeLabels.item:
+				BlobImporter.addAll(this.items, edge.outV, inVs.map(inV => { return { inV, property: edge.property }; }));
+				break;
+			case EdgeLabels.textDocument_documentSymbol:
+			case EdgeLabels.textDocument_foldingRange:
+			case EdgeLabels.textDocument_diagnostic:
+			case EdgeLabels.textDocument_documentLink:
+				BlobImporter.addAll(this.documentResults, edge.outV, inVs.map(inV => this.vertices.get(inV)!).filter(vertex => vertex !== undefined));
+				break;
+			default: {
+				const property = resultProperties.get(edge.label);
+				if (property !== undefined) {
+					let values = this.results.get(edge.outV);
+					if (values === undefined) {
+						values = new Map();
+						this.results.set(edge.outV, values);
+					}
+					values.set(property, inVs[0]);
+				}
+			}
+		}
+	}
+
+	protected doFinish(): void {
+		if (this.metaData === undefined) {
+			throw new Error('No meta data vertex found.');
+		}
+		if (this.workspaceRoot === undefined) {
+			throw new Error('No project root provided.');
+		}
+		for (const document of this.documents) {
+			this.insertDocument(document);
+		}
+		this.db.prepare('Insert Into versionTags (tag, dateTime) Values (?, ?)').run(this.tag, Date.now());
+		// The blob store reads the workspace root from the meta data.
+		const metaData = Object.assign({}, this.metaData, { projectRoot: this.workspaceRoot });
+		this.db.prepare('Insert Into meta (id, value) Values (?, ?)').run(1, JSON.stringify(metaData));
+		for (const stmt of blobIndices) {
+			this.db.exec(stmt);
+		}
+	}
+
+	private insertDocument(document: Document): void {
+		const rangeIds: Set<Id> = new Set();
+		for (const id of this.contains.get(document.id) || []) {
+			const vertex = this.vertices.get(id);
+			if (vertex !== undefined && vertex.label === VertexLabels.range) {
+				rangeIds.add(id);
+			}
+		}
+		// The blob store expects the result maps even if they are empty.
+		const blob: FilledBlob = {
+			contents: Buffer.from(document.contents !== undefined ? document.contents : '', 'base64').toString('utf8'),
+			ranges: Object.create(null),
+			resultSets: Object.create(null),
+			monikers: Object.create(null),
+			hovers: Object.create(null),
+			declarationResults: Object.create(null),
+			definitionResults: Object.create(null),
+			typeDefinitionResults: Object.create(null),
+			referenceResults: Object.create(null),
+			implementationResults: Object.create(null)
+		};
+		for (const id of rangeIds) {
+			const range = this.vertices.get(id) as Range;
+			const data: RangeData = { start: range.start, end: range.end, tag: range.tag };
+			blob.ranges[id] = data;
+			const moniker = this.findMoniker(this.getChain(id));
+			this.fillResults(blob, rangeIds, moniker !== undefined && moniker.kind !== MonikerKind.local, id, data);
+		}
+		for (const result of this.documentResults.get(document.id) || []) {
+			switch (result.label) {
+				case VertexLabels.documentSymbolResult:
+					blob.documentSymbols = (result as DocumentSymbolResult).result;
+					break;
+				case VertexLabels.foldingRangeResult:
+					blob.foldingRanges = (result as FoldingRangeResult).result;
+					break;
+				case VertexLabels.diagnosticResult:
+					blob.diagnostics = (result as DiagnosticResult).result;
+					break;
+				case VertexLabels.documentLinkResult:
+					blob.documentLinks = (result as DocumentLinkResult).result;
+					break;
+			}
+		}
+
+		const content = Buffer.from(JSON.stringify(blob), 'utf8');
+		const documentHash = Importer.hash(content);
+		this.insertBlobStmt.run(documentHash, content);
+		this.insertDocumentStmt.run(document.uri, documentHash);
+		this.insertVersionStmt.run(this.tag, documentHash);
+		for (const id of rangeIds) {
+			this.insertMonikerRows(documentHash, id, blob.ranges[id]);
+		}
+	}
+
+	/**
+	 * Adds the results reachable from `id` to the blob. The blob store only consults the
+	 * moniker tables if a result is missing. So results pointing into other documents are
+	 * left out if the range has a moniker.
+	 */
+	private fillResults(blob: FilledBlob, rangeIds: Set<Id>, hasMoniker: boolean, id: Id, data: RangeData | ResultSetData): void {
+		const monikerId = this.moniker.get(id);
+		if (monikerId !== undefined) {
+			const moniker = this.vertices.get(monikerId) as Moniker;
+			blob.monikers[monikerId] = { scheme: moniker.scheme, identifier: moniker.identifier, kind: moniker.kind };
+			data.moniker = monikerId;
+		}
+		const results = this.results.get(id);
+		if (results !== undefined) {
+			for (const [property, resultId] of results) {
+				if (hasMoniker && !this.isLocalResult(rangeIds, property, resultId)) {
+					continue;
+				}
+				data[property] = resultId;
+				this.fillResult(blob, rangeIds, property, resultId);
+			}
+		}
+		const next = this.next.get(id);
+		if (next !== undefined) {
+			data.next = next;
+			if (blob.resultSets[next] === undefined) {
+				const resultSet: ResultSetData = {};
+				blob.resultSets[next] = resultSet;
+				this.fillResults(blob, rangeIds, hasMoniker, next, resultSet);
+			}
+		}
+	}
+
+	private isLocalResult(rangeIds: Set<Id>, property: ResultProperty, resultId: Id): boolean {
+		if (property === 'hoverResult') {
+			return true;
+		}
+		if (property === 'referenceResult') {
+			for (const id of this.getReferenceKinds(resultId).keys()) {
+				if (!rangeIds.has(id)) {
+					return false;
+				}
+			}
+			return true;
+		}
+		return (this.items.get(resultId) || []).every(item => rangeIds.has(item.inV));
+	}
+
+	private fillResult(blob: FilledBlob, rangeIds: Set<Id>, property: ResultProperty, resultId: Id): void {
+		const values = (): Id[] => (this.items.get(resultId) || []).filter(item => rangeIds.has(item.inV)).map(item => item.inV);
+		switch (property) {
+			case 'hoverResult':
+				blob.hovers[resultId] = (this.vertices.get(resultId) as HoverResult).result;
+				break;
+			case 'declarationResult':
+				blob.declarationResults[resultId] = { values: values() };
+				break;
+			case 'definitionResult':
+				blob.definitionResults[resultId] = { values: values() };
+				break;
+			case 'typeDefinitionResult':
+				blob.typeDefinitionResults[resultId] = { values: values() };
+				break;
+			case 'implementationResult':
+				blob.implementationResults[resultId] = { values: values() };
+				break;
+			case 'referenceResult': {
+				const data: Required<ReferenceResultData> = { declarations: [], definitions: [], references: [] };
+				for (const [id, kind] of this.getReferenceKinds(resultId)) {
+					if (!rangeIds.has(id)) {
+						continue;
+					}
+					switch (kind) {
+						case ReferenceKind.declaration:
+							data.declarations.push(id);
+							break;
+						case ReferenceKind.definition:
+							data.definitions.push(id);
+							break;
+						case ReferenceKind.reference:
+							data.references.push(id);
+							break;
+					}
+				}
+				blob.referenceResults[resultId] = data;
+				break;
+			}
+		}
+	}
+
+	/**
+	 * Returns the ranges of a reference result including the ones of nested reference results.
+	 */
+	private getReferenceKinds(resultId: Id): Map<Id, ReferenceKind> {
+		let result = this.referenceKinds.get(resultId);
+		if (result !== undefined) {
+			return result;
+		}
+		result = new Map();
+		// Guards against cycles.
+		this.referenceKinds.set(resultId, result);
+		for (const item of this.items.get(resultId) || []) {
+			switch (item.property) {
+				case ItemEdgeProperties.declarations:
+					result.set(item.inV, ReferenceKind.declaration);
+					break;
+				case ItemEdgeProperties.definitions:
+					result.set(item.inV, ReferenceKind.definition);
+					break;
+				case ItemEdgeProperties.references:
+					result.set(item.inV, ReferenceKind.reference);
+					break;
+				case ItemEdgeProperties.referenceResults:
+					for (const [id, kind] of this.getReferenceKinds(item.inV)) {
+						result.set(id, kind);
+					}
+					break;
+			}
+		}
+		return result;
+	}
+
+	/**
+	 * Records the range under its moniker so that other documents can find it.
+	 */
+	private insertMonikerRows(documentHash: string, id: Id, range: RangeData): void {
+		const chain = this.getChain(id);
+		const moniker = this.findMoniker(chain);
+		if (moniker === undefined || moniker.kind === MonikerKind.local) {
+			return;
+		}
+		const coordinates = [range.start.line, range.start.character, range.end.line, range.end.character];
+		const contains = (resultId: Id | undefined): boolean => resultId !== undefined && (this.items.get(resultId) || []).some(item => item.inV === id);
+		if (contains(this.findResult(chain, 'declarationResult'))) {
+			this.insertDeclStmt.run(moniker.scheme, moniker.identifier, documentHash, ...coordinates);
+		}
+		if (contains(this.findResult(chain, 'definitionResult'))) {
+			this.insertDefStmt.run(moniker.scheme, moniker.identifier, documentHash, ...coordinates);
+		}
+		const referenceResult = this.findResult(chain, 'referenceResult');
+		const kind = referenceResult !== undefined ? this.getReferenceKinds(referenceResult).get(id) : undefined;
+		if (kind !== undefined) {
+			this.insertRefStmt.run(moniker.scheme, moniker.identifier, documentHash, kind, ...coordinates);
+		}
+		const hoverResult = this.findResult(chain, 'hoverResult');
+		if (hoverResult !== undefined) {
+			const content = Buffer.from(JSON.stringify((this.vertices.get(hoverResult) as HoverResult).result), 'utf8');
+			const hoverHash = Importer.hash(content);
+			this.insertBlobStmt.run(hoverHash, content);
+			this.insertHoverStmt.run(moniker.scheme, moniker.identifier, hoverHash);
+			this.insertVersionStmt.run(this.tag, hoverHash);
+		}
+	}
+
+	/**
+	 * Returns the vertex and the result sets reachable through `next` edges.
+	 */
+	private getChain(id: Id): Id[] {
+		const result: Id[] = [id];
+		let next = this.next.get(id);
+		while (next !== undefined && result.indexOf(next) === -1) {
+			result.push(next);
+			next = this.next.get(next);
+		}
+		return result;
+	}
+
+	private findResult(chain: Id[], property: ResultProperty): Id | undefined {
+		for (const id of chain) {
+			const results = this.results.get(id);
+			const result = results !== undefined ? results.get(property) : undefined;
+			if (result !== undefined) {
+				return result;
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Like the blob store this uses the last moniker on the chain.
+	 */
+	private findMoniker(chain: Id[]): Moniker | undefined {
+		let result: Moniker | undefined;
+		for (const id of chain) {
+			const monikerId = this.moniker.get(id);
+			if (monikerId !== undefined) {
+				result = this.vertices.get(monikerId) as Moniker;
+			}
+		}
+		return result;
+	}
+
+	private static addAll<T>(map: Map<Id, T[]>, key: Id, values: T[]): void {
+		let existing = map.get(key);
+		if (existing === undefined) {
+			map.set(key, values.slice());
+		} else {
+			existing.push(...values);
+		}
+	}
+}
@@ -2,9 +2,7 @@
  * Copyright (c) Microsoft Corporation. All rights reserved.
  * Licensed under the MIT License. See License.txt in the project root for license information.
  * ------------------------------------------------------------------------------------------ */
-import * as fs from 'fs';
 import * as crypto from 'crypto';
-import * as readline from 'readline';
 
 import { URI } from 'vscode-uri';
 import * as SemVer from 'semver';
@@ -13,21 +11,75 @@ import * as lsp from 'vscode-languageserver';
 import {
 	Id, Vertex, Project, Document, Range, DiagnosticResult, DocumentSymbolResult, FoldingRangeResult, DocumentLinkResult, DefinitionResult,
 	TypeDefinitionResult, HoverResult, ReferenceResult, ImplementationResult, Edge, RangeBasedDocumentSymbol, DeclarationResult, ResultSet,
-	ElementTypes, VertexLabels, EdgeLabels, ItemEdgeProperties, EventScope, EventKind, ProjectEvent, Moniker as PMoniker, moniker, MonikerKind
+	ElementTypes, VertexLabels, EdgeLabels, ItemEdgeProperties, Moniker as PMoniker, moniker, MonikerKind,
+	PackageInformation
 } from 'lsif-protocol';
 
 import { DocumentInfo } from './files';
-import { Database, UriTransformer } from './database';
+import {
+	Database, UriTransformer, DatabaseStatistics, MonikerStatistics, ToolInfo, InspectedElement, ProjectOutline, MonikerLocation, MonikerInfo,
+	MonikerResults, PackageInfo
+} from './database';
+import { Compression, DumpReaderOptions, readDump } from './dumpReader';
+import { DumpIndex } from './dumpIndex';
 
 interface Moniker extends PMoniker {
 	key: string;
 }
 
+/**
+ * Elements emitted by indexers which aren't part of the protocol version
+ * we compile against.
+ */
+namespace Legacy {
+	export const group = 'group';
+	export const belongsTo = 'belongsTo';
+
+	export interface Group {
+		id: Id;
+		type: ElementTypes.vertex;
+		label: typeof group;
+		name?: string;
+		rootUri?: string;
+	}
+}
+
+export interface VersionCompatibility {
+	range: string;
+	name: string;
+	supported: boolean;
+}
+
+const versionCompatibility: VersionCompatibility[] = [
+	{ range: '<=0.5.99', name: '0.5.x and older', supported: false },
+	{ range: '>0.5.99 <=0.6.0-next.4', name: '0.6.0-next.1 to 0.6.0-next.4', supported: true },
+	{ range: '>0.6.0-next.4 <0.7.0-0', name: '0.6.0-next.5 to 0.6.x (implementation and typeDefinition edges, groups only for their root URI)', supported: true },
+	{ range: '>=0.7.0-0', name: '0.7.0 and newer', supported: false }
+];
+
+export namespace VersionCompatibility {
+	export function isSupported(version: SemVer.SemVer): boolean {
+		for (const item of versionCompatibility) {
+			if (SemVer.satisfies(version, item.range, { includePrerelease: true })) {
+				return item.supported;
+			}
+		}
+		return false;
+	}
+
+	export function asTable(): string {
+		return versionCompatibility.map(item => `  ${item.name}: ${item.supported ? 'supported' : 'not supported'}`).join('\n');
+	}
+}
+
 interface Vertices {
+	/**
+	 * Empty in streaming mode. The vertices are read from the dump instead.
+	 */
 	all: Map<Id, Vertex>;
+	groups: Map<Id, Legacy.Group>;
 	projects: Map<Id, Project>;
 	documents: Map<Id, Document>;
-	ranges: Map<Id, Range>;
 }
 
 type ItemTarget =
@@ -36,30 +88,46 @@ type ItemTarget =
 	{ type: ItemEdgeProperties.definitions; range: Range; } |
 	{ type: ItemEdgeProperties.references; range: Range; } |
 	{ type: ItemEdgeProperties.referenceResults; result: ReferenceResult; } |
-	{ type: ItemEdgeProperties.referenceLinks; result: Moniker; };
+	{ type: ItemEdgeProperties.referenceLinks; result: Moniker; } |
+	{ type: ItemEdgeProperties.implementationResults; result: ImplementationResult; } |
+	{ type: ItemEdgeProperties.implementationLinks; result: Moniker; };
+
+/**
+ * The part of a map the queries use. In memory mode the edges are kept in maps,
+ * in streaming mode they are read from the dump.
+ */
+interface Lookup<T> {
+	get(id: Id): T | undefined;
+	has(id: Id): boolean;
+}
 
 interface Out {
-	contains: Map<Id, Document[] | Range[]>;
-	item: Map<Id, ItemTarget[]>;
-	next: Map<Id, Vertex>;
-	moniker: Map<Id, Moniker>;
-	documentSymbol: Map<Id, DocumentSymbolResult>;
-	foldingRange: Map<Id, FoldingRangeResult>;
-	documentLink: Map<Id, DocumentLinkResult>;
-	diagnostic: Map<Id, DiagnosticResult>;
-	declaration: Map<Id, DeclarationResult>;
-	definition: Map<Id, DefinitionResult>;
-	typeDefinition: Map<Id, TypeDefinitionResult>;
-	hover: Map<Id, HoverResult>;
-	references: Map<Id, ReferenceResult>;
-	implementation: Map<Id, ImplementationResult>;
+	contains: Lookup<Document[] | Range[]>;
+	item: Lookup<ItemTarget[]>;
+	next: Lookup<Vertex>;
+	moniker: Lookup<Moniker>;
+	attach: Lookup<Moniker>;
+	packageInformation: Lookup<PackageInformation>;
+	documentSymbol: Lookup<DocumentSymbolResult>;
+	foldingRange: Lookup<FoldingRangeResult>;
+	documentLink: Lookup<DocumentLinkResult>;
+	diagnostic: Lookup<DiagnosticResult>;
+	declaration: Lookup<DeclarationResult>;
+	definition: Lookup<DefinitionResult>;
+	typeDefinition: Lookup<TypeDefinitionResult>;
+	hover: Lookup<HoverResult>;
+	references: Lookup<ReferenceResult>;
+	implementation: Lookup<ImplementationResult>;
 }
 
 interface In {
-	contains: Map<Id, Project | Document>;
-	moniker: Map<Id, Vertex[]>;
+	contains: Lookup<Project | Document>;
+	moniker: Lookup<Vertex[]>;
+	attach: Lookup<Moniker[]>;
 }
 
+type Maps<T> = { [K in keyof T]: T[K] extends Lookup<infer V> ? Map<Id, V> : never };
+
 interface Indices {
 	monikers: Map<string, Moniker[]>;
 	contents: Map<string, string>;
@@ -78,25 +146,71 @@ namespace Locations {
 	}
 }
 
+namespace Monikers {
+	export function makeKey(scheme: string, identifier: string): string {
+		return crypto.createHash('md5').update(JSON.stringify({ s: scheme, i: identifier }, undefined, 0)).digest('base64');
+	}
+}
+
+export type JsonStoreMode = 'memory' | 'streaming';
+
+export interface JsonStoreOptions extends DumpReaderOptions {
+	/**
+	 * In `streaming` mode only the byte offsets of the elements, the positions of the
+	 * ranges and the links between the elements are kept in memory, see `DumpIndex`.
+	 * Vertices and edges are read from the dump when needed. Documents, projects and
+	 * monikers stay in memory, documents without their contents. Defaults to `memory`.
+	 * Compressed dumps are always loaded into memory since they can't be read at random
+	 * offsets.
+	 */
+	mode?: JsonStoreMode;
+
+	/**
+	 * Skip lines which can't be parsed or processed instead of failing the load.
+	 * Meant for partially written dumps. The skipped lines are available through
+	 * `getSkippedElements` after loading.
+	 */
+	lenient?: boolean;
+}
+
+export interface SkippedElement {
+	/**
+	 * The zero based line in the dump.
+	 */
+	line: number;
+	message: string;
+}
+
 export class JsonStore extends Database {
 
+	private options: JsonStoreOptions;
+	private index: DumpIndex | undefined;
+	private skipped: SkippedElement[];
+	private labels: Map<string, number>;
+	private monikerStatistics: Map<string, MonikerStatistics>;
+
 	private version: string | undefined;
+	private toolInfo: ToolInfo | undefined;
 	private workspaceRoot!: URI;
-	private activeGroup: Id | undefined;
-	private activeProject: Id | undefined;
 
 	private vertices: Vertices;
 	private indices: Indices;
+	private outMaps: Maps<Out>;
+	private inMaps: Maps<In>;
 	private out: Out;
 	private in: In;
 
-	constructor() {
+	constructor(options: JsonStoreOptions = {}) {
 		super();
+		this.options = options;
+		this.skipped = [];
+		this.labels = new Map();
+		this.monikerStatistics = new Map();
 		this.vertices = {
 			all: new Map(),
+			groups: new Map(),
 			projects: new Map(),
-			documents: new Map(),
-			ranges: new Map()
+			documents: new Map()
 		};
 
 		this.indices = {
@@ -105,11 +219,13 @@ export class JsonStore extends Database {
 			monikers: new Map(),
 		};
 
-		this.out = {
+		this.outMaps = {
 			contains: new Map(),
 			item: new Map(),
 			next: new Map(),
 			moniker: new Map(),
+			attach: new Map(),
+			packageInformation: new Map(),
 			documentSymbol: new Map(),
 			foldingRange: new Map(),
 			documentLink: new Map(),
@@ -122,61 +238,49 @@ export class JsonStore extends Database {
 			implementation: new Map()
 		};
 
-		this.in = {
+		this.inMaps = {
 			contains: new Map(),
-			moniker: new Map()
+			moniker: new Map(),
+			attach: new Map()
 		};
+		this.out = this.outMaps;
+		this.in = this.inMaps;
 	}
 
 	public load(file: string, transformerFactory: (workspaceRoot: string) => UriTransformer): Promise<void> {
-		return new Promise<void>((resolve, reject) => {
-			const input: fs.ReadStream = fs.createReadStream(file, { encoding: 'utf8'});
-			input.on('error', reject);
-			const rd = readline.createInterface(input);
-			rd.on('line', (line: string) => {
-				if (!line || line.length === 0) {
-					return;
-				}
-				try {
-					const element: Edge | Vertex = JSON.parse(line);
-					switch (element.type) {
-						case ElementTypes.vertex:
-							this.processVertex(element);
-							break;
-						case ElementTypes.edge:
-							this.processEdge(element);
-							break;
-					}
-				} catch (error) {
-					input.destroy();
-					reject(error);
-				}
-			});
-			rd.on('close', () => {
-				if (this.workspaceRoot === undefined) {
-					reject(new Error('No project root provided.'));
-					return;
-				}
-				if (this.version === undefined) {
-					reject(new Error('No version found.'));
-					return;
-				} else {
-					const semVer = SemVer.parse(this.version);
-					if (!semVer) {
-						reject(new Error(`No valid semantic version string. The version is: ${this.version}`));
-						return;
-					}
-					const range: SemVer.Range = new SemVer.Range('>0.5.99 <=0.6.0-next.4');
-					range.includePrerelease = true;
-					if (!SemVer.satisfies(semVer, range)) {
-						reject(new Error(`Requires version range >0.5.99 <=0.6.0-next.4 but received: ${this.version}`));
-						return;
+		const compression = Compression.fromFile(file);
+		if (this.options.mode === 'streaming' && compression === undefined) {
+			this.index = new DumpIndex(file);
+			this.out = this.createIndexedOut(this.index);
+			this.in = this.createIndexedIn(this.index);
+		}
+		return readDump(file, this.options, (line, offset, length, lineNumber) => this.processLine(line, offset, length, lineNumber)).then(() => {
+			if (this.workspaceRoot === undefined) {
+				// Dumps without a source vertex use the root of the group.
+				for (const group of this.vertices.groups.values()) {
+					if (group.rootUri !== undefined) {
+						this.workspaceRoot = URI.parse(group.rootUri);
+						break;
 					}
 				}
-				resolve();
-			});
-		}).then(() => {
+			}
+			if (this.workspaceRoot === undefined) {
+				throw new Error('No project root provided.');
+			}
+			if (this.version === undefined) {
+				throw new Error('No version found.');
+			}
+			const semVer = SemVer.parse(this.version);
+			if (!semVer) {
+				throw new Error(`No valid semantic version string. The version is: ${this.version}`);
+			}
+			if (!VersionCompatibility.isSupported(semVer)) {
+				throw new Error(`LSIF version ${this.version} is not supported. Version compatibility:\n${VersionCompatibility.asTable()}`);
+			}
 			this.initialize(transformerFactory);
+		}).then(undefined, (error) => {
+			this.close();
+			throw error;
 		});
 	}
 
@@ -185,13 +289,166 @@ export class JsonStore extends Database {
 	}
 
 	public close(): void {
+		if (this.index !== undefined) {
+			this.index.close();
+		}
+	}
+
+	public statistics(): DatabaseStatistics {
+		return this.createStatistics('json', { version: this.version, toolInfo: this.toolInfo }, this.labels, Array.from(this.monikerStatistics.values()));
+	}
+
+	public getSkippedElements(): SkippedElement[] {
+		return this.skipped;
+	}
+
+	private processLine(line: string, offset: number, length: number, lineNumber: number): void {
+		if (!this.options.lenient) {
+			this.doProcessLine(line, offset, length);
+			return;
+		}
+		try {
+			this.doProcessLine(line, offset, length);
+		} catch (error: any) {
+			this.skipped.push({ line: lineNumber, message: error.message });
+		}
+	}
+
+	private doProcessLine(line: string, offset: number, length: number): void {
+		const element: Edge | Vertex = JSON.parse(line);
+		switch (element.type) {
+			case ElementTypes.vertex:
+				this.processVertex(element, offset, length);
+				break;
+			case ElementTypes.edge:
+				this.processEdge(element, offset, length);
+				break;
+		}
+	}
+
+	/**
+	 * Returns the vertex including its payload. In streaming mode documents are
+	 * kept without their contents, which are read from the dump.
+	 */
+	private resolve<T extends Vertex>(vertex: T): T {
+		if (this.index === undefined || vertex.label !== VertexLabels.document) {
+			return vertex;
+		}
+		const result = this.index.vertex<T>(vertex.id);
+		return result !== undefined ? result : vertex;
+	}
+
+	/**
+	 * Returns a vertex. In streaming mode documents and projects are taken from
+	 * memory and all other vertices are read from the dump.
+	 */
+	private getVertex<T extends Vertex>(id: Id): T | undefined {
+		if (this.index === undefined) {
+			return this.vertices.all.get(id) as T | undefined;
+		}
+		const vertex = this.vertices.documents.get(id) ?? this.vertices.projects.get(id) ?? this.index.vertex(id);
+		if (vertex !== undefined && vertex.label === VertexLabels.moniker && vertex.kind !== MonikerKind.local) {
+			(vertex as Moniker).key = Monikers.makeKey(vertex.scheme, vertex.identifier);
+		}
+		return vertex as T | undefined;
+	}
+
+	private createIndexedOut(index: DumpIndex): Out {
+		// As in memory mode the last edge of a 1:1 relation wins.
+		const target = <T extends Vertex>(label: EdgeLabels): Lookup<T> => ({
+			get: (id) => {
+				const edges = index.outgoing(id, label);
+				return edges.length > 0 ? this.getVertex<T>((edges[edges.length - 1] as { inV: Id }).inV) : undefined;
+			},
+			has: (id) => index.hasOutgoing(id, label)
+		});
+		return {
+			contains: {
+				get: (id) => {
+					const contained = index.getContained(id);
+					if (contained === undefined) {
+						return undefined;
+					}
+					return contained.map(inV => this.getVertex(inV)).filter(vertex => vertex !== undefined) as Document[] | Range[];
+				},
+				has: (id) => index.getContained(id) !== undefined
+			},
+			item: {
+				get: (id) => {
+					const edges = index.outgoing(id, EdgeLabels.item) as { inVs: Id[]; property?: ItemEdgeProperties; }[];
+					if (edges.length === 0) {
+						return undefined;
+					}
+					const result: ItemTarget[] = [];
+					for (const edge of edges) {
+						for (const inV of edge.inVs) {
+							const to = this.getVertex(inV);
+							const itemTarget = to !== undefined ? JsonStore.asItemTarget(edge.property, to) : undefined;
+							if (itemTarget !== undefined) {
+								result.push(itemTarget);
+							}
+						}
+					}
+					return result;
+				},
+				has: (id) => index.hasOutgoing(id, EdgeLabels.item)
+			},
+			next: target(EdgeLabels.next),
+			moniker: target(EdgeLabels.moniker),
+			attach: target(EdgeLabels.attach),
+			packageInformation: target(EdgeLabels.packageInformation),
+			documentSymbol: target(EdgeLabels.textDocument_documentSymbol),
+			foldingRange: target(EdgeLabels.textDocument_foldingRange),
+			documentLink: target(EdgeLabels.textDocument_documentLink),
+			diagnostic: target(EdgeLabels.textDocument_diagnostic),
+			declaration: target(EdgeLabels.textDocument_declaration),
+			definition: target(EdgeLabels.textDocument_definition),
+			typeDefinition: target(EdgeLabels.textDocument_typeDefinition),
+			hover: target(EdgeLabels.textDocument_hover),
+			references: target(EdgeLabels.textDocument_references),
+			implementation: target(EdgeLabels.textDocument_implementation)
+		};
+	}
+
+	private createIndexedIn(index: DumpIndex): In {
+		const sources = <T extends Vertex>(label: EdgeLabels): Lookup<T[]> => ({
+			get: (id) => {
+				const edges = index.incoming(id, label);
+				if (edges.length === 0) {
+					return undefined;
+				}
+				return edges.map(edge => this.getVertex<T>(edge.outV)).filter(vertex => vertex !== undefined) as T[];
+			},
+			has: (id) => index.hasIncoming(id, label)
+		});
+		return {
+			contains: {
+				get: (id) => {
+					const container = index.getContainer(id);
+					return container !== undefined ? this.getVertex<Project | Document>(container) : undefined;
+				},
+				has: (id) => index.getContainer(id) !== undefined
+			},
+			moniker: sources(EdgeLabels.moniker),
+			attach: sources<Moniker>(EdgeLabels.attach)
+		};
 	}
 
-	private processVertex(vertex: Vertex): void {
-		this.vertices.all.set(vertex.id, vertex);
+	private processVertex(vertex: Vertex | Legacy.Group, offset: number, length: number): void {
+		if (vertex.label === Legacy.group) {
+			this.vertices.groups.set(vertex.id, vertex);
+			return;
+		}
+		if (this.index !== undefined) {
+			this.index.addVertex(vertex, offset, length);
+		} else {
+			this.vertices.all.set(vertex.id, vertex);
+		}
+		this.labels.set(vertex.label, (this.labels.get(vertex.label) || 0) + 1);
 		switch(vertex.label) {
 			case VertexLabels.metaData:
 				this.version = vertex.version;
+				this.toolInfo = vertex.toolInfo;
 				break;
 			case VertexLabels.source:
 				this.workspaceRoot = URI.parse(vertex.workspaceRoot);
@@ -199,21 +456,13 @@ export class JsonStore extends Database {
 			case VertexLabels.project:
 				this.vertices.projects.set(vertex.id, vertex);
 				break;
-			case VertexLabels.event:
-				if (vertex.kind === EventKind.begin) {
-					switch (vertex.scope) {
-						case EventScope.project:
-							this.activeProject = (vertex as ProjectEvent).data;
-							break;
-					}
-				}
-				break;
 			case VertexLabels.document:
 				this.doProcessDocument(vertex);
 				break;
 			case VertexLabels.moniker:
+				Database.countMoniker(this.monikerStatistics, vertex.scheme, vertex.kind);
 				if (vertex.kind !== MonikerKind.local) {
-					const key = crypto.createHash('md5').update(JSON.stringify({ s: vertex.scheme, i: vertex.identifier }, undefined, 0)).digest('base64');
+					const key = Monikers.makeKey(vertex.scheme, vertex.identifier);
 					(vertex as Moniker).key = key;
 					let values = this.indices.monikers.get(key);
 					if (values === undefined) {
@@ -223,17 +472,19 @@ export class JsonStore extends Database {
 					values.push(vertex as Moniker);
 				}
 				break;
-			case VertexLabels.range:
-				this.vertices.ranges.set(vertex.id, vertex);
-				break;
 		}
 	}
 
 	private doProcessDocument(document: Document): void {
-		const contents = document.contents !== undefined ? document.contents : 'No content provided.';
+		const contents = document.contents !== undefined ? document.contents : Database.noContent;
 		this.vertices.documents.set(document.id, document);
 		const hash = crypto.createHash('md5').update(contents).digest('base64');
-		this.indices.contents.set(hash, contents);
+		if (this.index === undefined) {
+			this.indices.contents.set(hash, contents);
+		} else {
+			// The contents are read from the dump when needed.
+			Reflect.deleteProperty(document, 'contents');
+		}
 
 		let value = this.indices.documents.get(document.uri);
 		if (value === undefined) {
@@ -246,17 +497,73 @@ export class JsonStore extends Database {
 		value.documents.push(document);
 	}
 
-	private processEdge(edge: Edge): void {
+	private processEdge(edge: Edge, offset: number, length: number): void {
 		let property: ItemEdgeProperties | undefined;
 		if (edge.label === 'item') {
 			property = edge.property;
 		}
+		if ((edge as { label: string }).label === Legacy.belongsTo) {
+			this.processBelongsTo(edge);
+			return;
+		}
+		if (this.index !== undefined) {
+			this.indexEdge(this.index, edge, offset, length);
+			return;
+		}
 		if (Edge.is11(edge)) {
 			this.doProcessEdge(edge.label, edge.outV, edge.inV, property);
 		} else if (Edge.is1N(edge)) {
+			// In lenient mode the valid ends of the edge are kept.
+			let error: any;
 			for (let inV of edge.inVs) {
-				this.doProcessEdge(edge.label, edge.outV, inV, property);
+				try {
+					this.doProcessEdge(edge.label, edge.outV, inV, property);
+				} catch (err) {
+					if (!this.options.lenient) {
+						throw err;
+					}
+					error = error ?? err;
+				}
 			}
+			if (error !== undefined) {
+				throw error;
+			}
+		}
+	}
+
+	/**
+	 * Only validates the edge. Groups merely provide the workspace root, see `load`.
+	 */
+	private processBelongsTo(edge: Edge): void {
+		const inVs: Id[] = Edge.is1N(edge) ? edge.inVs : [(edge as { inV: Id }).inV];
+		for (const inV of inVs) {
+			if (!this.vertices.groups.has(inV)) {
+				throw new Error(`No group found for Id ${inV}`);
+			}
+		}
+	}
+
+	/**
+	 * Adds an edge to the index in streaming mode. As in memory mode the valid
+	 * ends of a 1:N edge are kept in lenient mode.
+	 */
+	private indexEdge(index: DumpIndex, edge: Edge, offset: number, length: number): void {
+		if (!index.hasVertex(edge.outV)) {
+			throw new Error(`No vertex found for Id ${edge.outV}`);
+		}
+		const inVs: Id[] = Edge.is1N(edge) ? edge.inVs : [(edge as { inV: Id }).inV];
+		const valid = inVs.filter(inV => index.hasVertex(inV));
+		const missing = inVs.find(inV => !index.hasVertex(inV));
+		if (missing !== undefined && (!Edge.is1N(edge) || !this.options.lenient)) {
+			throw new Error(`No vertex found for Id ${missing}`);
+		}
+		if (edge.label === EdgeLabels.contains) {
+			index.addContains(edge.outV, valid);
+		} else {
+			index.addEdge(edge, offset, length, edge.label === EdgeLabels.moniker || edge.label === EdgeLabels.attach);
+		}
+		if (missing !== undefined) {
+			throw new Error(`No vertex found for Id ${missing}`);
 		}
 	}
 
@@ -272,86 +579,104 @@ export class JsonStore extends Database {
 		let values: any[] | undefined;
 		switch (label) {
 			case EdgeLabels.contains:
-				values = this.out.contains.get(from.id);
+				values = this.outMaps.contains.get(from.id);
 				if (values === undefined) {
 					values = [ to as any ];
-					this.out.contains.set(from.id, values);
+					this.outMaps.contains.set(from.id, values);
 				} else {
 					values.push(to);
 				}
-				this.in.contains.set(to.id, from as any);
+				this.inMaps.contains.set(to.id, from as any);
 				break;
 			case EdgeLabels.item:
-				values = this.out.item.get(from.id);
-				let itemTarget: ItemTarget | undefined;
-				if (property !== undefined) {
-					switch (property) {
-						case ItemEdgeProperties.references:
-							itemTarget = { type: property, range: to as Range };
-							break;
-						case ItemEdgeProperties.declarations:
-							itemTarget = { type: property, range: to as Range };
-							break;
-						case ItemEdgeProperties.definitions:
-							itemTarget = { type: property, range: to as Range };
-							break;
-						case ItemEdgeProperties.referenceResults:
-							itemTarget = { type: property, result: to as ReferenceResult };
-							break;
-						case ItemEdgeProperties.referenceLinks:
-							itemTarget = { type: property, result: to as Moniker };
-					}
-				} else {
-					itemTarget = to as Range;
-				}
+				values = this.outMaps.item.get(from.id);
+				const itemTarget = JsonStore.asItemTarget(property, to);
 				if (itemTarget !== undefined) {
 					if (values === undefined) {
 						values = [ itemTarget ];
-						this.out.item.set(from.id, values);
+						this.outMaps.item.set(from.id, values);
 					} else {
 						values.push(itemTarget);
 					}
 				}
 				break;
 			case EdgeLabels.next:
-				this.out.next.set(from.id, to);
+				this.outMaps.next.set(from.id, to);
 				break;
 			case EdgeLabels.moniker:
-				this.out.moniker.set(from.id, to as Moniker);
-				values = this.in.moniker.get(to.id);
+				this.outMaps.moniker.set(from.id, to as Moniker);
+				values = this.inMaps.moniker.get(to.id);
 				if (values === undefined) {
 					values = [];
-					this.in.moniker.set(to.id, values);
+					this.inMaps.moniker.set(to.id, values);
 				}
 				values.push(from);
 				break;
+			case EdgeLabels.attach:
+				this.outMaps.attach.set(from.id, to as Moniker);
+				values = this.inMaps.attach.get(to.id);
+				if (values === undefined) {
+					values = [];
+					this.inMaps.attach.set(to.id, values);
+				}
+				values.push(from);
+				break;
+			case EdgeLabels.packageInformation:
+				this.outMaps.packageInformation.set(from.id, to as PackageInformation);
+				break;
 			case EdgeLabels.textDocument_documentSymbol:
-				this.out.documentSymbol.set(from.id, to as DocumentSymbolResult);
+				this.outMaps.documentSymbol.set(from.id, to as DocumentSymbolResult);
 				break;
 			case EdgeLabels.textDocument_foldingRange:
-				this.out.foldingRange.set(from.id, to as FoldingRangeResult);
+				this.outMaps.foldingRange.set(from.id, to as FoldingRangeResult);
 				break;
 			case EdgeLabels.textDocument_documentLink:
-				this.out.documentLink.set(from.id, to as DocumentLinkResult);
+				this.outMaps.documentLink.set(from.id, to as DocumentLinkResult);
 				break;
 			case EdgeLabels.textDocument_diagnostic:
-				this.out.diagnostic.set(from.id, to as DiagnosticResult);
+				this.outMaps.diagnostic.set(from.id, to as DiagnosticResult);
 				break;
 			case EdgeLabels.textDocument_definition:
-				this.out.definition.set(from.id, to as DefinitionResult);
+				this.outMaps.definition.set(from.id, to as DefinitionResult);
 				break;
 			case EdgeLabels.textDocument_typeDefinition:
-				this.out.typeDefinition.set(from.id, to as TypeDefinitionResult);
+				this.outMaps.typeDefinition.set(from.id, to as TypeDefinitionResult);
 				break;
 			case EdgeLabels.textDocument_hover:
-				this.out.hover.set(from.id, to as HoverResult);
+				this.outMaps.hover.set(from.id, to as HoverResult);
 				break;
 			case EdgeLabels.textDocument_references:
-				this.out.references.set(from.id, to as ReferenceResult);
+				this.outMaps.references.set(from.id, to as ReferenceResult);
+				break;
+			case EdgeLabels.textDocument_implementation:
+				this.outMaps.implementation.set(from.id, to as ImplementationResult);
 				break;
 		}
 	}
 
+	private static asItemTarget(property: ItemEdgeProperties | undefined, to: Vertex): ItemTarget | undefined {
+		if (property === undefined) {
+			return to as Range;
+		}
+		switch (property) {
+			case ItemEdgeProperties.references:
+				return { type: property, range: to as Range };
+			case ItemEdgeProperties.declarations:
+				return { type: property, range: to as Range };
+			case ItemEdgeProperties.definitions:
+				return { type: property, range: to as Range };
+			case ItemEdgeProperties.referenceResults:
+				return { type: property, result: to as ReferenceResult };
+			case ItemEdgeProperties.referenceLinks:
+				return { type: property, result: to as Moniker };
+			case ItemEdgeProperties.implementationResults:
+				return { type: property, result: to as ImplementationResult };
+			case ItemEdgeProperties.implementationLinks:
+				return { type: property, result: to as Moniker };
+		}
+		return undefined;
+	}
+
 	public getDocumentInfos(): DocumentInfo[] {
 		const result: DocumentInfo[] = [];
 		this.indices.documents.forEach((value, key) => {
@@ -361,6 +686,73 @@ export class JsonStore extends Database {
 		return result;
 	}
 
+	protected getProjects(): ProjectOutline[] {
+		const result: ProjectOutline[] = [];
+		for (const project of this.vertices.projects.values()) {
+			const documents: Set<string> = new Set();
+			const contains = this.out.contains.get(project.id);
+			if (contains !== undefined) {
+				for (const element of contains) {
+					if (element.label === VertexLabels.document) {
+						documents.add(element.uri);
+					}
+				}
+			}
+			result.push({ id: project.id, name: project.name !== undefined ? project.name : project.kind, documents: Array.from(documents) });
+		}
+		return result;
+	}
+
+	public listMonikers(scheme: string, kind: MonikerKind): MonikerLocation[] {
+		// Monikers with the same scheme and identifier share a key.
+		const matches: Moniker[][] = [];
+		for (const monikers of this.indices.monikers.values()) {
+			const matching = monikers.filter(moniker => moniker.scheme === scheme && moniker.kind === kind);
+			if (matching.length > 0) {
+				matches.push(matching);
+			}
+		}
+		matches.sort((a, b) => a[0].identifier < b[0].identifier ? -1 : a[0].identifier > b[0].identifier ? 1 : 0);
+		return matches.slice(0, Database.maxListedMonikers).map((monikers) => {
+			let location: lsp.Location | undefined;
+			for (const moniker of monikers) {
+				location = this.findMonikerLocation(moniker);
+				if (location !== undefined) {
+					break;
+				}
+			}
+			return { identifier: monikers[0].identifier, location };
+		});
+	}
+
+	private findMonikerLocation(moniker: Moniker): lsp.Location | undefined {
+		const vertices = this.findAttachedVertices(moniker);
+		if (vertices === undefined) {
+			return undefined;
+		}
+		for (const vertex of vertices) {
+			const definitionResult = this.getResultPath(vertex.id, this.out.definition).result;
+			const ranges = definitionResult !== undefined ? this.item(definitionResult.value) : undefined;
+			if (ranges !== undefined && ranges.length > 0 && this.in.contains.has(ranges[0].id)) {
+				return this.asLocation(ranges[0]);
+			}
+		}
+		for (const vertex of vertices) {
+			const referenceResult = this.getResultPath(vertex.id, this.out.references).result;
+			if (referenceResult !== undefined) {
+				const locations: lsp.Location[] = [];
+				this.resolveReferenceResult(locations, new Set(), [], referenceResult.value, { includeDeclaration: true });
+				if (locations.length > 0) {
+					return locations[0];
+				}
+			}
+			if (vertex.label === VertexLabels.range && this.in.contains.has(vertex.id)) {
+				return this.asLocation(vertex);
+			}
+		}
+		return undefined;
+	}
+
 	protected findFile(uri: string): { id: Id; hash: string; } | undefined {
 		const result = this.indices.documents.get(uri);
 		if (result === undefined) {
@@ -370,7 +762,15 @@ export class JsonStore extends Database {
 	}
 
 	protected fileContent(info: { id: Id, hash: string }): string | undefined {
-		return this.indices.contents.get(info.hash);
+		if (this.index === undefined) {
+			return this.indices.contents.get(info.hash);
+		}
+		const document = this.vertices.documents.get(info.id);
+		if (document === undefined) {
+			return undefined;
+		}
+		const contents = this.resolve(document).contents;
+		return contents !== undefined ? contents : Database.noContent;
 	}
 
 	public foldingRanges(uri: string): lsp.FoldingRange[] | undefined {
@@ -386,7 +786,7 @@ export class JsonStore extends Database {
 			return undefined;
 		}
 		let result: lsp.FoldingRange[] = [];
-		for (let item of foldingRangeResult.result) {
+		for (let item of this.resolve(foldingRangeResult).result) {
 			result.push(Object.assign(Object.create(null), item));
 		}
 		return result;
@@ -401,7 +801,11 @@ export class JsonStore extends Database {
 		// all documents with the same content have the same document symbols.
 		const id = value.documents[0].id;
 		let documentSymbolResult = this.out.documentSymbol.get(id);
-		if (documentSymbolResult === undefined || documentSymbolResult.result.length === 0) {
+		if (documentSymbolResult === undefined) {
+			return undefined;
+		}
+		documentSymbolResult = this.resolve(documentSymbolResult);
+		if (documentSymbolResult.result.length === 0) {
 			return undefined;
 		}
 		let first = documentSymbolResult.result[0];
@@ -421,10 +825,78 @@ export class JsonStore extends Database {
 		return result;
 	}
 
+	public diagnostics(uri: string): lsp.Diagnostic[] | undefined {
+		const value = this.indices.documents.get(this.toDatabase(uri));
+		if (value === undefined) {
+			return undefined;
+		}
+		// Take the id of the first document with that content. We assume that
+		// all documents with the same content have the same diagnostics.
+		const id = value.documents[0].id;
+		const diagnosticResult = this.out.diagnostic.get(id);
+		if (diagnosticResult === undefined) {
+			return undefined;
+		}
+		let result: lsp.Diagnostic[] = [];
+		for (let item of this.resolve(diagnosticResult).result) {
+			result.push(Object.assign(Object.create(null), item));
+		}
+		return result;
+	}
+
+	public documentLinks(uri: string): lsp.DocumentLink[] | undefined {
+		const value = this.indices.documents.get(this.toDatabase(uri));
+		if (value === undefined) {
+			return undefined;
+		}
+		// Take the id of the first document with that content. We assume that
+		// all documents with the same content have the same document links.
+		const id = value.documents[0].id;
+		const documentLinkResult = this.out.documentLink.get(id);
+		if (documentLinkResult === undefined) {
+			return undefined;
+		}
+		return this.resolve(documentLinkResult).result.map(item => this.asDocumentLink(item));
+	}
+
+	public workspaceSymbols(query: string): lsp.SymbolInformation[] {
+		// An empty query would list every symbol of the database.
+		if (query.length === 0) {
+			return [];
+		}
+		const result: lsp.SymbolInformation[] = [];
+		this.indices.documents.forEach((value, key) => {
+			const uri = this.fromDatabase(key);
+			const id = value.documents[0].id;
+			if (this.out.documentSymbol.has(id)) {
+				const symbols = this.documentSymbols(uri);
+				if (symbols !== undefined) {
+					this.collectSymbols(result, query, uri, symbols);
+				}
+				return;
+			}
+			// No document symbol result. Use the tags of the document's ranges instead.
+			const contains = this.findContainedRanges(id, () => true);
+			if (contains === undefined) {
+				return;
+			}
+			for (const item of contains) {
+				if (item.tag === undefined || !Database.matchesQuery(query, item.tag.text)) {
+					continue;
+				}
+				const symbol = this.asSymbolInformation(item, uri);
+				if (symbol !== undefined) {
+					result.push(symbol);
+				}
+			}
+		});
+		return result;
+	}
+
 	private toDocumentSymbol(value: RangeBasedDocumentSymbol): lsp.DocumentSymbol | undefined {
-		let range = this.vertices.ranges.get(value.id)!;
-		let tag = range.tag;
-		if (tag === undefined || !(tag.type === 'declaration' || tag.type === 'definition')) {
+		let range = this.getVertex<Range>(value.id);
+		let tag = range !== undefined ? range.tag : undefined;
+		if (range === undefined || tag === undefined || !(tag.type === 'declaration' || tag.type === 'definition')) {
 			return undefined;
 		}
 		let result: lsp.DocumentSymbol = lsp.DocumentSymbol.create(
@@ -452,10 +924,11 @@ export class JsonStore extends Database {
 		// We assume that for the same document URI the same position results in the same
 		// hover. So we take the first range.
 		const range = ranges[0];
-		const hoverResult = this.getResultPath(range.id, this.out.hover).result?.value;
+		let hoverResult = this.getResultPath(range.id, this.out.hover).result?.value;
 		if (hoverResult === undefined) {
 			return undefined;
 		}
+		hoverResult = this.resolve(hoverResult);
 
 		let hoverRange = hoverResult.result.range !== undefined ? hoverResult.result.range : range;
 		return {
@@ -472,13 +945,27 @@ export class JsonStore extends Database {
 		return this.findTargets(uri, position, this.out.definition);
 	}
 
-	private findTargets<T extends (DefinitionResult | DeclarationResult)>(uri: string, position: lsp.Position, edges: Map<Id, T>): lsp.Location | lsp.Location[] | undefined {
+	public typeDefinitions(uri: string, position: lsp.Position): lsp.Location | lsp.Location[] | undefined {
+		return this.findTargets(uri, position, this.out.typeDefinition);
+	}
+
+	private findTargets<T extends (DefinitionResult | DeclarationResult | TypeDefinitionResult)>(uri: string, position: lsp.Position, edges: Lookup<T>): lsp.Location | lsp.Location[] | undefined {
 		const ranges = this.findRangesFromPosition(this.toDatabase(uri), position);
 		if (ranges === undefined) {
 			return undefined;
 		}
 
-		const resolveTargets = (result: lsp.Location[], dedupLocations: Set<string>, targetResult: T): void => {
+		const result: lsp.Location[] = [];
+		const dedupLocations: Set<string> = new Set();
+		const dedupMonikers: Set<string> = new Set();
+		for (const range of ranges) {
+			this.findTargetsOf(result, dedupLocations, dedupMonikers, range.id, edges);
+		}
+		return result;
+	}
+
+	private findTargetsOf<T extends (DefinitionResult | DeclarationResult | TypeDefinitionResult)>(result: lsp.Location[], dedupLocations: Set<string>, dedupMonikers: Set<string>, start: Id, edges: Lookup<T>): void {
+		const resolveTargets = (targetResult: T): void => {
 			const ranges = this.item(targetResult);
 			if (ranges === undefined) {
 				return undefined;
@@ -488,16 +975,52 @@ export class JsonStore extends Database {
 			}
 		};
 
-		const _findTargets = (result: lsp.Location[], dedupLocations: Set<string>, dedupMonikers: Set<string>, range: Range): void => {
-			const resultPath = this.getResultPath(range.id, edges);
-			if (resultPath.result === undefined) {
-				return undefined;
+		const resultPath = this.getResultPath(start, edges);
+		if (resultPath.result === undefined) {
+			return undefined;
+		}
+
+		const mostSpecificMoniker = this.getMostSpecificMoniker(resultPath);
+		const monikers: Moniker[] = mostSpecificMoniker !== undefined ? [mostSpecificMoniker] : [];
+
+		resolveTargets(resultPath.result.value);
+		for (const moniker of monikers) {
+			if (dedupMonikers.has(moniker.key)) {
+				continue;
 			}
+			dedupMonikers.add(moniker.key);
+			const matchingMonikers = this.indices.monikers.get(moniker.key);
+			if (matchingMonikers !== undefined) {
+				for (const matchingMoniker of matchingMonikers) {
+					const vertices = this.findVerticesForMoniker(matchingMoniker);
+					if (vertices !== undefined) {
+						for (const vertex of vertices) {
+							const resultPath = this.getResultPath(vertex.id, edges);
+							if (resultPath.result === undefined) {
+								continue;
+							}
+							resolveTargets(resultPath.result.value);
+						}
+					}
+				}
+			}
+		}
+	}
+
+	public references(uri: string, position: lsp.Position, context: lsp.ReferenceContext): lsp.Location[] | undefined {
+		let ranges = this.findRangesFromPosition(this.toDatabase(uri), position);
+		if (ranges === undefined) {
+			return undefined;
+		}
 
+		const findReferences = (result: lsp.Location[], dedupLocations: Set<string>, dedupMonikers: Set<string>, range: Range): void => {
+			const resultPath = this.getResultPath(range.id, this.out.references);
+			if (resultPath.result === undefined) {
+				return;
+			}
 			const mostSpecificMoniker = this.getMostSpecificMoniker(resultPath);
 			const monikers: Moniker[] = mostSpecificMoniker !== undefined ? [mostSpecificMoniker] : [];
-
-			resolveTargets(result, dedupLocations, resultPath.result.value);
+			this.resolveReferenceResult(result, dedupLocations, monikers, resultPath.result.value, context);
 			for (const moniker of monikers) {
 				if (dedupMonikers.has(moniker.key)) {
 					continue;
@@ -506,14 +1029,17 @@ export class JsonStore extends Database {
 				const matchingMonikers = this.indices.monikers.get(moniker.key);
 				if (matchingMonikers !== undefined) {
 					for (const matchingMoniker of matchingMonikers) {
+						if (moniker.id === matchingMoniker.id) {
+							continue;
+						}
 						const vertices = this.findVerticesForMoniker(matchingMoniker);
 						if (vertices !== undefined) {
 							for (const vertex of vertices) {
-								const resultPath = this.getResultPath(vertex.id, edges);
+								const resultPath = this.getResultPath(vertex.id, this.out.references);
 								if (resultPath.result === undefined) {
 									continue;
 								}
-								resolveTargets(result, dedupLocations, resultPath.result.value);
+								this.resolveReferenceResult(result, dedupLocations, monikers, resultPath.result.value, context);
 							}
 						}
 					}
@@ -525,25 +1051,25 @@ export class JsonStore extends Database {
 		const dedupLocations: Set<string> = new Set();
 		const dedupMonikers: Set<string> = new Set();
 		for (const range of ranges) {
-			_findTargets(result, dedupLocations, dedupMonikers, range);
+			findReferences(result, dedupLocations, dedupMonikers, range);
 		}
+
 		return result;
 	}
 
-	public references(uri: string, position: lsp.Position, context: lsp.ReferenceContext): lsp.Location[] | undefined {
+	public implementations(uri: string, position: lsp.Position): lsp.Location[] | undefined {
 		let ranges = this.findRangesFromPosition(this.toDatabase(uri), position);
 		if (ranges === undefined) {
 			return undefined;
 		}
 
-		const findReferences = (result: lsp.Location[], dedupLocations: Set<string>, dedupMonikers: Set<string>, range: Range): void => {
-			const resultPath = this.getResultPath(range.id, this.out.references);
-			if (resultPath.result === undefined) {
-				return;
-			}
+		const findImplementations = (result: lsp.Location[], dedupLocations: Set<string>, dedupMonikers: Set<string>, range: Range): void => {
+			const resultPath = this.getResultPath(range.id, this.out.implementation);
 			const mostSpecificMoniker = this.getMostSpecificMoniker(resultPath);
 			const monikers: Moniker[] = mostSpecificMoniker !== undefined ? [mostSpecificMoniker] : [];
-			this.resolveReferenceResult(result, dedupLocations, monikers, resultPath.result.value, context);
+			if (resultPath.result !== undefined) {
+				this.resolveImplementationResult(result, dedupLocations, monikers, resultPath.result.value);
+			}
 			for (const moniker of monikers) {
 				if (dedupMonikers.has(moniker.key)) {
 					continue;
@@ -558,11 +1084,11 @@ export class JsonStore extends Database {
 						const vertices = this.findVerticesForMoniker(matchingMoniker);
 						if (vertices !== undefined) {
 							for (const vertex of vertices) {
-								const resultPath = this.getResultPath(vertex.id, this.out.references);
+								const resultPath = this.getResultPath(vertex.id, this.out.implementation);
 								if (resultPath.result === undefined) {
 									continue;
 								}
-								this.resolveReferenceResult(result, dedupLocations, monikers, resultPath.result.value, context);
+								this.resolveImplementationResult(result, dedupLocations, monikers, resultPath.result.value);
 							}
 						}
 					}
@@ -574,13 +1100,174 @@ export class JsonStore extends Database {
 		const dedupLocations: Set<string> = new Set();
 		const dedupMonikers: Set<string> = new Set();
 		for (const range of ranges) {
-			findReferences(result, dedupLocations, dedupMonikers, range);
+			findImplementations(result, dedupLocations, dedupMonikers, range);
+		}
+
+		return result;
+	}
+
+	public inspect(uri: string, position: lsp.Position): InspectedElement[] | undefined {
+		const ranges = this.findRangesFromPosition(this.toDatabase(uri), position);
+		if (ranges === undefined) {
+			return undefined;
+		}
+		return ranges.map(range => this.inspectVertex(range, undefined, new Set()));
+	}
+
+	private inspectVertex(vertex: Vertex, edge: string | undefined, path: Set<Id>): InspectedElement {
+		const properties = this.resolve(vertex);
+		const result: InspectedElement = { id: vertex.id, label: vertex.label, edge, description: Database.describeVertex(vertex.label, properties), properties };
+		if (vertex.label === VertexLabels.range && this.in.contains.has(vertex.id)) {
+			result.location = this.asLocation(vertex);
+		}
+		// Ranges reached over an edge are the targets of a result. Their own edges
+		// belong to a different symbol. The path guards against next cycles.
+		if ((edge !== undefined && vertex.label === VertexLabels.range) || path.has(vertex.id)) {
+			return result;
+		}
+		path.add(vertex.id);
+		const children: InspectedElement[] = [];
+		const add = (label: string, target: Vertex | undefined): void => {
+			if (target !== undefined) {
+				children.push(this.inspectVertex(target, label, path));
+			}
+		};
+		add(EdgeLabels.next, this.out.next.get(vertex.id));
+		add(EdgeLabels.moniker, this.out.moniker.get(vertex.id));
+		add(EdgeLabels.attach, this.out.attach.get(vertex.id));
+		const attached = this.in.attach.get(vertex.id);
+		if (attached !== undefined) {
+			for (const moniker of attached) {
+				add(`${EdgeLabels.attach} (incoming)`, moniker);
+			}
+		}
+		add(EdgeLabels.textDocument_hover, this.out.hover.get(vertex.id));
+		add(EdgeLabels.textDocument_declaration, this.out.declaration.get(vertex.id));
+		add(EdgeLabels.textDocument_definition, this.out.definition.get(vertex.id));
+		add(EdgeLabels.textDocument_typeDefinition, this.out.typeDefinition.get(vertex.id));
+		add(EdgeLabels.textDocument_references, this.out.references.get(vertex.id));
+		add(EdgeLabels.textDocument_implementation, this.out.implementation.get(vertex.id));
+		const items = this.out.item.get(vertex.id);
+		if (items !== undefined) {
+			children.push(...Database.inspectItems(items, (item) => {
+				if (item.type === ElementTypes.vertex) {
+					return this.inspectVertex(item, EdgeLabels.item, path);
+				} else if ('range' in item) {
+					return this.inspectVertex(item.range, `${EdgeLabels.item} (${item.type})`, path);
+				} else {
+					return this.inspectVertex(item.result, `${EdgeLabels.item} (${item.type})`, path);
+				}
+			}));
+		}
+		path.delete(vertex.id);
+		if (children.length > 0) {
+			result.children = children;
+		}
+		return result;
+	}
+
+	public monikers(uri: string, position: lsp.Position): MonikerInfo[] {
+		const ranges = this.findRangesFromPosition(this.toDatabase(uri), position);
+		if (ranges === undefined) {
+			return [];
+		}
+		const monikers: Map<Id, Moniker> = new Map();
+		for (const range of ranges) {
+			// Without result edges the path covers the whole next chain.
+			for (const element of this.getResultPath(range.id, new Map()).path) {
+				if (element.moniker !== undefined) {
+					this.collectAttachedMonikers(monikers, element.moniker);
+				}
+			}
+		}
+		return Array.from(monikers.values()).map((moniker) => {
+			return {
+				scheme: moniker.scheme, identifier: moniker.identifier, kind: moniker.kind,
+				packageInformation: Database.asPackageInfo(this.out.packageInformation.get(moniker.id))
+			};
+		});
+	}
+
+	private collectAttachedMonikers(result: Map<Id, Moniker>, moniker: Moniker): void {
+		if (result.has(moniker.id)) {
+			return;
+		}
+		result.set(moniker.id, moniker);
+		const target = this.out.attach.get(moniker.id);
+		if (target !== undefined) {
+			this.collectAttachedMonikers(result, target);
+		}
+		const attached = this.in.attach.get(moniker.id);
+		if (attached !== undefined) {
+			for (const item of attached) {
+				this.collectAttachedMonikers(result, item);
+			}
 		}
+	}
 
+	public findByMoniker(scheme: string, identifier: string, packageInformation?: PackageInfo): MonikerResults | undefined {
+		let monikers = this.indices.monikers.get(Monikers.makeKey(scheme, identifier));
+		if (monikers !== undefined && packageInformation !== undefined) {
+			monikers = monikers.filter(moniker => Database.isSamePackage(packageInformation, this.out.packageInformation.get(moniker.id)));
+		}
+		if (monikers === undefined || monikers.length === 0) {
+			return undefined;
+		}
+		const result: MonikerResults = { declarations: [], definitions: [], references: [] };
+		const dedupDeclarations: Set<string> = new Set();
+		const dedupDefinitions: Set<string> = new Set();
+		const dedupReferences: Set<string> = new Set();
+		for (const moniker of monikers) {
+			const vertices = this.findAttachedVertices(moniker);
+			if (vertices === undefined) {
+				continue;
+			}
+			// An import moniker only tells where the symbol is used.
+			const exported = moniker.kind === MonikerKind.export;
+			for (const vertex of vertices) {
+				const referenceResult = this.getResultPath(vertex.id, this.out.references).result;
+				if (referenceResult !== undefined) {
+					this.resolveReferenceResult(result.references, dedupReferences, [], referenceResult.value, { includeDeclaration: false });
+				}
+				if (!exported) {
+					continue;
+				}
+				const declarationResult = this.getResultPath(vertex.id, this.out.declaration).result;
+				if (declarationResult !== undefined) {
+					for (const range of this.item(declarationResult.value)) {
+						this.addLocation(result.declarations, range, dedupDeclarations);
+					}
+				}
+				const definitionResult = this.getResultPath(vertex.id, this.out.definition).result;
+				if (definitionResult !== undefined) {
+					for (const range of this.item(definitionResult.value)) {
+						this.addLocation(result.definitions, range, dedupDefinitions);
+					}
+				}
+				const hoverResult = result.hover === undefined ? this.getResultPath(vertex.id, this.out.hover).result : undefined;
+				if (hoverResult !== undefined) {
+					result.hover = { contents: this.resolve(hoverResult.value).result.contents };
+				}
+			}
+		}
 		return result;
 	}
 
-	private getResultPath<T>(start: Id, edges: Map<Id, T>): ResultPath<T> {
+	/**
+	 * Returns the vertices carrying the moniker. Attach edges are followed to the
+	 * moniker the vertices point to.
+	 */
+	private findAttachedVertices(moniker: Moniker): Vertex[] | undefined {
+		let current: Moniker | undefined = moniker;
+		const visited: Set<Id> = new Set();
+		while (current !== undefined && !this.in.moniker.has(current.id) && !visited.has(current.id)) {
+			visited.add(current.id);
+			current = this.out.attach.get(current.id);
+		}
+		return current !== undefined ? this.in.moniker.get(current.id) : undefined;
+	}
+
+	private getResultPath<T>(start: Id, edges: Lookup<T>): ResultPath<T> {
 		let currentId = start;
 		const result: ResultPath<T> = { path: [], result: undefined };
 		do {
@@ -635,15 +1322,35 @@ export class JsonStore extends Database {
 		}
 	}
 
-	private item(value: DefinitionResult | DeclarationResult): Range[];
-	private item(value: ReferenceResult): ItemTarget[];
-	private item(value: DeclarationResult | DefinitionResult | ReferenceResult): Range[] | ItemTarget[] | undefined {
+	private resolveImplementationResult(locations: lsp.Location[], dedupLocations: Set<string>, monikers: Moniker[], implementationResult: ImplementationResult): void {
+		const targets = this.item(implementationResult);
+		if (targets === undefined) {
+			return undefined;
+		}
+		for (let target of targets) {
+			if (target.type === ItemEdgeProperties.implementationResults) {
+				this.resolveImplementationResult(locations, dedupLocations, monikers, target.result);
+			} else if (target.type === ItemEdgeProperties.implementationLinks) {
+				monikers.push(target.result);
+			} else if (target.type === ElementTypes.vertex) {
+				this.addLocation(locations, target, dedupLocations);
+			}
+		}
+	}
+
+	private item(value: DefinitionResult | DeclarationResult | TypeDefinitionResult): Range[];
+	private item(value: ReferenceResult | ImplementationResult): ItemTarget[];
+	private item(value: DeclarationResult | DefinitionResult | TypeDefinitionResult | ReferenceResult | ImplementationResult): Range[] | ItemTarget[] | undefined {
 		if (value.label === 'declarationResult') {
 			return this.out.item.get(value.id) as Range[];
 		} else if (value.label === 'definitionResult') {
 			return this.out.item.get(value.id) as Range[];
+		} else if (value.label === 'typeDefinitionResult') {
+			return this.out.item.get(value.id) as Range[];
 		} else if (value.label === 'referenceResult') {
 			return this.out.item.get(value.id) as ItemTarget[];
+		} else if (value.label === 'implementationResult') {
+			return this.out.item.get(value.id) as ItemTarget[];
 		} else {
 			return undefined;
 		}
@@ -672,23 +1379,18 @@ export class JsonStore extends Database {
 		let result: Range[] = [];
 		for (const document of value.documents) {
 			const id = document.id;
-			let contains = this.out.contains.get(id);
-			if (contains === undefined || contains.length === 0) {
+			let contains = this.findContainedRanges(id, range => JsonStore.containsPosition(range, position));
+			if (contains === undefined) {
 				return undefined;
 			}
 
 			let candidate: Range | undefined;
 			for (let item of contains) {
-				if (item.label !== VertexLabels.range) {
-					continue;
-				}
-				if (JsonStore.containsPosition(item, position)) {
-					if (!candidate) {
+				if (!candidate) {
+					candidate = item;
+				} else {
+					if (JsonStore.containsRange(candidate, item)) {
 						candidate = item;
-					} else {
-						if (JsonStore.containsRange(candidate, item)) {
-							candidate = item;
-						}
 					}
 				}
 			}
@@ -699,6 +1401,78 @@ export class JsonStore extends Database {
 		return result.length > 0 ? result : undefined;
 	}
 
+	protected findRangesInRange(uri: string, range: lsp.Range): lsp.Range[] {
+		const value = this.indices.documents.get(this.toDatabase(uri));
+		if (value === undefined) {
+			return [];
+		}
+		const contains = this.findContainedRanges(value.documents[0].id, item => JsonStore.containsRange(range, item));
+		return contains !== undefined ? contains.map(item => this.asRange(item)) : [];
+	}
+
+	protected findDocumentRanges(uri: string): Range[] | undefined {
+		const value = this.indices.documents.get(this.toDatabase(uri));
+		if (value === undefined) {
+			return undefined;
+		}
+		const contains = this.findContainedRanges(value.documents[0].id, () => true);
+		return contains !== undefined ? contains : [];
+	}
+
+	/**
+	 * Returns the ranges of a document passing the filter. In streaming mode the
+	 * positions are taken from the index and only the passing ranges are read.
+	 */
+	private findContainedRanges(id: Id, filter: (range: lsp.Range) => boolean): Range[] | undefined {
+		if (this.index === undefined) {
+			const contains = this.out.contains.get(id);
+			if (contains === undefined) {
+				return undefined;
+			}
+			return (contains as (Document | Range)[]).filter(item => item.label === VertexLabels.range && filter(item)) as Range[];
+		}
+		const contained = this.index.getContained(id);
+		if (contained === undefined) {
+			return undefined;
+		}
+		const result: Range[] = [];
+		for (const inV of contained) {
+			const range = this.index.range(inV);
+			if (range === undefined || !filter(range)) {
+				continue;
+			}
+			const vertex = this.getVertex<Range>(inV);
+			if (vertex !== undefined) {
+				result.push(vertex);
+			}
+		}
+		return result;
+	}
+
+	protected findDocumentDefinitions(uri: string, keys: Set<string>): Map<string, lsp.Location[]> {
+		const result: Map<string, lsp.Location[]> = new Map();
+		// Ranges without results or monikers of their own resolve to those of their result set.
+		const resultSets: Map<Id, lsp.Location[]> = new Map();
+		for (const range of this.findDocumentRanges(uri) ?? []) {
+			const key = Database.makeRangeKey(range);
+			if (!keys.has(key)) {
+				continue;
+			}
+			const next = this.out.next.get(range.id);
+			const shared = next !== undefined && !this.out.definition.has(range.id) && !this.out.moniker.has(range.id);
+			let locations = shared ? resultSets.get(next.id) : undefined;
+			if (locations === undefined) {
+				locations = [];
+				this.findTargetsOf(locations, new Set(), new Set(), shared ? next!.id : range.id, this.out.definition);
+				if (shared) {
+					resultSets.set(next!.id, locations);
+				}
+			}
+			result.set(key, locations);
+		}
+		return result;
+	}
+
 	private asLocation(value: Range | lsp.Location): lsp.Location {
 		if (lsp.Location.is(value)) {
 			return value;
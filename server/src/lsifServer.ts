@@ -11,11 +11,22 @@ import { URI  } from 'vscode-uri';
 import {
 	createConnection, ProposedFeatures, InitializeParams, TextDocumentSyncKind, WorkspaceFolder,
 	BulkUnregistration, BulkRegistration, DocumentSymbolRequest, DocumentSelector, FoldingRangeRequest,
-	HoverRequest, DefinitionRequest, ReferencesRequest, RequestType, DeclarationRequest, DocumentFilter
+	HoverRequest, DefinitionRequest, TypeDefinitionRequest, ReferencesRequest, ImplementationRequest, RequestType, DeclarationRequest, DocumentFilter,
+	DidOpenTextDocumentNotification, DidChangeTextDocumentNotification, DidCloseTextDocumentNotification, Diagnostic, DocumentLinkRequest,
+	WorkspaceSymbolRequest, SymbolInformation, CallHierarchyPrepareRequest, WorkDoneProgressServerReporter, DiagnosticSeverity, Range, uinteger,
+	NotificationType, Position, Location, Hover, MarkupContent, MarkupKind, MarkedString,
+	SemanticTokensRegistrationType, SemanticTokensBuilder, SemanticTokens
 } from 'vscode-languageserver/node';
+import { MonikerKind } from 'lsif-protocol';
 
-import { Database, UriTransformer } from './database';
+import {
+	Database, UriTransformer, DatabaseStatistics, InspectedElement, DatabaseOutline, MonikerLocation, MonikerResults, MonikerInfo, PackageInfo,
+	SemanticToken, semanticTokensLegend
+} from './database';
 import { FileType, FileStat } from './files';
+import { LineMapping, mapLocations } from './diff';
+import { SkippedElement } from './jsonStore';
+import { Compression } from './dumpReader';
 
 const LSIF_SCHEME = 'lsif';
 
@@ -43,6 +54,179 @@ namespace ReadDirectoryRequest {
 	export const type = new RequestType<ReadDirectoryParams, [string, FileType][], void>('lsif/readDirectory');
 }
 
+interface VersionTag {
+	tag: string;
+	dateTime: number;
+}
+
+interface VersionTagsParams {
+	uri: string;
+}
+
+namespace VersionTagsRequest {
+	export const type = new RequestType<VersionTagsParams, VersionTag[], void>('lsif/versionTags');
+}
+
+interface SetVersionParams {
+	uri: string;
+	version: string;
+}
+
+namespace SetVersionRequest {
+	export const type = new RequestType<SetVersionParams, void, void>('lsif/setVersion');
+}
+
+interface SelectedVersionParams {
+	uri: string;
+}
+
+namespace SelectedVersionRequest {
+	export const type = new RequestType<SelectedVersionParams, string | null, void>('lsif/selectedVersion');
+}
+
+interface DocumentDiff {
+	uri: string;
+	fromHash?: string;
+	toHash?: string;
+}
+
+interface VersionDiff {
+	added: DocumentDiff[];
+	removed: DocumentDiff[];
+	changed: DocumentDiff[];
+}
+
+interface VersionDiffParams {
+	uri: string;
+	from: string;
+	to: string;
+}
+
+namespace VersionDiffRequest {
+	export const type = new RequestType<VersionDiffParams, VersionDiff, void>('lsif/versionDiff');
+}
+
+interface ReadDocumentByHashParams {
+	uri: string;
+	documentHash: string;
+}
+
+namespace ReadDocumentByHashRequest {
+	export const type = new RequestType<ReadDocumentByHashParams, string | null, void>('lsif/readDocumentByHash');
+}
+
+interface ImportSummary {
+	format: 'graph' | 'blob';
+	vertices: number;
+	edges: number;
+	documents: number;
+	ranges: number;
+	resultSets: number;
+	monikers: number;
+}
+
+interface ImportDumpParams {
+	dump: string;
+	database: string;
+	format: 'graph' | 'blob';
+	tag?: string;
+}
+
+namespace ImportDumpRequest {
+	export const type = new RequestType<ImportDumpParams, ImportSummary, void>('lsif/importDump');
+}
+
+interface ExportSummary {
+	vertices: number;
+	edges: number;
+}
+
+interface ExportDumpParams {
+	uri: string;
+	dump: string;
+}
+
+namespace ExportDumpRequest {
+	export const type = new RequestType<ExportDumpParams, ExportSummary, void>('lsif/exportDump');
+}
+
+interface ValidationSummary {
+	vertices: number;
+	edges: number;
+	errors: number;
+	warnings: number;
+	reported: number;
+}
+
+interface ValidateDumpParams {
+	dump: string;
+}
+
+namespace ValidateDumpRequest {
+	export const type = new RequestType<ValidateDumpParams, ValidationSummary, void>('lsif/validateDump');
+}
+
+interface SkippedElementsParams {
+	uri: string;
+	count: number;
+}
+
+namespace SkippedElementsNotification {
+	export const type = new NotificationType<SkippedElementsParams>('lsif/skippedElements');
+}
+
+interface StatisticsParams {
+	uri: string;
+}
+
+namespace StatisticsRequest {
+	export const type = new RequestType<StatisticsParams, DatabaseStatistics, void>('lsif/statistics');
+}
+
+interface InspectParams {
+	uri: string;
+	position: Position;
+}
+
+namespace InspectRequest {
+	export const type = new RequestType<InspectParams, InspectedElement[] | null, void>('lsif/inspect');
+}
+
+interface OutlineParams {
+	uri: string;
+}
+
+namespace OutlineRequest {
+	export const type = new RequestType<OutlineParams, DatabaseOutline, void>('lsif/outline');
+}
+
+interface ListMonikersParams {
+	uri: string;
+	scheme: string;
+	kind: MonikerKind;
+}
+
+namespace ListMonikersRequest {
+	export const type = new RequestType<ListMonikersParams, MonikerLocation[], void>('lsif/listMonikers');
+}
+
+interface LocalFolderParams {
+	uri: string;
+}
+
+namespace LocalFolderRequest {
+	export const type = new RequestType<LocalFolderParams, string | null, void>('lsif/localFolder');
+}
+
+interface SetLocalFolderParams {
+	uri: string;
+	folder: string | null;
+}
+
+namespace SetLocalFolderRequest {
+	export const type = new RequestType<SetLocalFolderParams, void, void>('lsif/setLocalFolder');
+}
+
 let connection = createConnection(ProposedFeatures.all);
 
 class Transformer implements UriTransformer {
@@ -96,10 +280,19 @@ function sortedDatabaseKeys(): string[] {
 }
 
 const databases: Map<string, Promise<Database>> = new Map();
+/**
+ * The databases which finished loading, by database key.
+ */
+const loadedDatabases: Map<string, Database> = new Map();
 function getDatabaseKey(uri: string): string {
 	return uri.charAt(uri.length - 1) !== '/' ? `${uri}/` : uri;
 }
 
+const jsonDumpExtensions: string[] = ['.lsif', '.lsif.gz', '.lsif.zst', '.lsif.zstd'];
+function isJsonDump(fsPath: string): boolean {
+	return jsonDumpExtensions.some(extension => fsPath.endsWith(extension));
+}
+
 async function createDatabase(folder: WorkspaceFolder): Promise<Database | undefined> {
 	let uri: URI = URI.parse(folder.uri);
 	const fsPath = uri.fsPath;
@@ -107,6 +300,7 @@ async function createDatabase(folder: WorkspaceFolder): Promise<Database | undef
 	if (fs.existsSync(fsPath)) {
 		try {
 			let database: Database | undefined;
+			let loaded: () => void = () => {};
 			if (extName === '.db') {
 				const Sqlite = await import('better-sqlite3');
 				const db = new Sqlite(fsPath, { readonly: true });
@@ -120,20 +314,43 @@ async function createDatabase(folder: WorkspaceFolder): Promise<Database | undef
 				}
 				if (format === 'blob') {
 					const module = await import('./blobStore');
-					database = new module.BlobStore();
+					database = new module.BlobStore(await getSelectedVersion(folder));
 				} else {
 					const module = await import ('./graphStore');
 					database = new module.GraphStore();
 				}
-			} else if (extName === '.lsif') {
+			} else if (isJsonDump(fsPath)) {
 				const module = await import('./jsonStore');
-				database = new module.JsonStore();
+				const progress = await connection.window.createWorkDoneProgress();
+				progress.begin(`Loading ${path.basename(fsPath)}`, 0, undefined, true);
+				const jsonStore = new module.JsonStore({
+					mode: await getJsonLoadMode(fsPath),
+					lenient: await getJsonLenient(),
+					progress: reportBytes(progress),
+					token: progress.token
+				});
+				database = jsonStore;
+				loaded = () => {
+					progress.done();
+					reportSkippedElements(folder, fsPath, jsonStore.getSkippedElements());
+				};
 			}
 			if (database !== undefined) {
+				const localFolder = await getLocalFolder(folder);
+				if (localFolder !== undefined) {
+					localFolders.set(getDatabaseKey(folder.uri), getDatabaseKey(localFolder));
+				}
 				let promise = database.load(fsPath, (workspaceRoot: string) => {
 					return new Transformer(uri, workspaceRoot);
 				}).then(() => {
+					loaded();
+					if (databases.get(getDatabaseKey(folder.uri)) === promise) {
+						loadedDatabases.set(getDatabaseKey(folder.uri), database!);
+					}
 					return database!;
+				}, (error) => {
+					loaded();
+					throw error;
 				});
 				databases.set(getDatabaseKey(folder.uri), promise);
 				return promise;
@@ -145,7 +362,134 @@ async function createDatabase(folder: WorkspaceFolder): Promise<Database | undef
 	return Promise.reject(new Error(`Can't create database for ${folder.uri}`));
 }
 
+async function getSelectedVersion(folder: WorkspaceFolder): Promise<string | undefined> {
+	try {
+		const version = await connection.sendRequest(SelectedVersionRequest.type, { uri: folder.uri });
+		return version !== null ? version : undefined;
+	} catch (err) {
+		return undefined;
+	}
+}
+
+async function getLocalFolder(folder: WorkspaceFolder): Promise<string | undefined> {
+	try {
+		const localFolder = await connection.sendRequest(LocalFolderRequest.type, { uri: folder.uri });
+		return localFolder !== null ? localFolder : undefined;
+	} catch (err) {
+		return undefined;
+	}
+}
+
+connection.onRequest(ExportDumpRequest.type, async (params) => {
+	const module = await import('./exporter');
+	let promise = findDatabase(params.uri);
+	if (promise === undefined) {
+		throw new Error(`No LSIF database mounted for ${params.uri}`);
+	}
+	let database = await promise;
+	const dump = URI.parse(params.dump).fsPath;
+	const progress = await connection.window.createWorkDoneProgress();
+	progress.begin(`Exporting to ${path.basename(dump)}`, undefined, undefined, true);
+	let reported = 0;
+	try {
+		return await module.exportDump(database, dump, {
+			progress: (elements) => {
+				if (elements - reported >= 10000) {
+					reported = elements;
+					progress.report(`${elements} elements`);
+				}
+			},
+			token: progress.token
+		});
+	} finally {
+		progress.done();
+	}
+});
+
+connection.onRequest(ValidateDumpRequest.type, async (params) => {
+	const module = await import('./validator');
+	const dump = URI.parse(params.dump).fsPath;
+	const progress = await connection.window.createWorkDoneProgress();
+	progress.begin(`Validating ${path.basename(dump)}`, 0, undefined, true);
+	try {
+		const result = await module.validateDump(dump, { progress: reportBytes(progress), token: progress.token });
+		const diagnostics = result.problems.map((problem) => {
+			return Diagnostic.create(
+				Range.create(problem.line, 0, problem.line, uinteger.MAX_VALUE), problem.message,
+				problem.severity === 'error' ? DiagnosticSeverity.Error : DiagnosticSeverity.Warning, undefined, 'lsif'
+			);
+		});
+		connection.sendDiagnostics({ uri: params.dump, diagnostics });
+		return { vertices: result.vertices, edges: result.edges, errors: result.errors, warnings: result.warnings, reported: diagnostics.length };
+	} finally {
+		progress.done();
+	}
+});
+
+function reportBytes(progress: WorkDoneProgressServerReporter): (bytesRead: number, totalBytes: number) => void {
+	let percentage = 0;
+	return (bytesRead, totalBytes) => {
+		const value = totalBytes > 0 ? Math.floor(bytesRead * 100 / totalBytes) : 100;
+		if (value > percentage) {
+			percentage = value;
+			progress.report(percentage);
+		}
+	};
+}
+
+type JsonLoadMode = 'auto' | 'memory' | 'streaming';
+const streamingThreshold = 256 * 1024 * 1024;
+async function getJsonLoadMode(fsPath: string): Promise<'memory' | 'streaming'> {
+	let value: JsonLoadMode = 'auto';
+	if (hasConfigurationCapability) {
+		value = await connection.workspace.getConfiguration('lsif.json.loadMode');
+	}
+	const compressed = Compression.fromFile(fsPath) !== undefined;
+	if (value === 'memory' || (value === 'streaming' && !compressed)) {
+		return value;
+	}
+	// Compressed dumps can't be read at random offsets.
+	if (value === 'streaming') {
+		connection.window.showWarningMessage(`${path.basename(fsPath)} is compressed and can't be opened in streaming mode. It is loaded into memory instead.`);
+		return 'memory';
+	}
+	if (!compressed) {
+		return fs.statSync(fsPath).size > streamingThreshold ? 'streaming' : 'memory';
+	}
+	if (Compression.estimateSize(fsPath) > streamingThreshold) {
+		connection.window.showInformationMessage(`${path.basename(fsPath)} is a large compressed dump and gets loaded into memory. Use the command Convert LSIF Dump to SQLite Database to open it with less memory.`);
+	}
+	return 'memory';
+}
+
+async function getJsonLenient(): Promise<boolean> {
+	if (!hasConfigurationCapability) {
+		return false;
+	}
+	return await connection.workspace.getConfiguration('lsif.json.lenient') === true;
+}
+
+const maxLoggedSkippedElements = 1000;
+function reportSkippedElements(folder: WorkspaceFolder, fsPath: string, skipped: SkippedElement[]): void {
+	if (skipped.length === 0) {
+		return;
+	}
+	connection.console.warn(`Skipped ${skipped.length} elements while loading ${fsPath}:`);
+	for (let item of skipped.slice(0, maxLoggedSkippedElements)) {
+		connection.console.warn(`${fsPath}:${item.line + 1}: ${item.message}`);
+	}
+	if (skipped.length > maxLoggedSkippedElements) {
+		connection.console.warn(`... and ${skipped.length - maxLoggedSkippedElements} more.`);
+	}
+	connection.sendNotification(SkippedElementsNotification.type, { uri: folder.uri, count: skipped.length });
+}
+
 function findDatabase(uri: string): Promise<Database> | undefined {
+	let key = findDatabaseKey(uri);
+	return key !== undefined ? databases.get(key) : undefined;
+}
+
+function findDatabaseKey(uri: string): string | undefined {
 	let sorted = sortedDatabaseKeys();
 	let parsed = URI.parse(uri);
 	if (parsed.query) {
@@ -157,12 +501,219 @@ function findDatabase(uri: string): Promise<Database> | undefined {
 	}
 	for (let element of sorted) {
 		if (uri.startsWith(element)) {
-			return databases.get(element);
+			return element;
 		}
 	}
 	return undefined;
 }
 
+/**
+ * The local folders the databases are mapped onto. Maps the database key to the
+ * URI of the folder. Both end in a slash.
+ */
+const localFolders: Map<string, string> = new Map();
+
+/**
+ * Translates the URI of a document in a local folder into the URI of the document
+ * in the database mapped onto the folder. Other URIs are returned unchanged.
+ */
+function fromLocalFolder(uri: string): string {
+	if (URI.parse(uri).scheme !== 'file') {
+		return uri;
+	}
+	let key: string | undefined;
+	let folder: string | undefined;
+	for (let [candidateKey, candidate] of localFolders) {
+		if (uri.startsWith(candidate) && (folder === undefined || candidate.length > folder.length)) {
+			key = candidateKey;
+			folder = candidate;
+		}
+	}
+	return key !== undefined ? `${key}${uri.substring(folder!.length)}` : uri;
+}
+
+function toLocalFolder(uri: string): string {
+	for (let [key, folder] of localFolders) {
+		if (uri.startsWith(key)) {
+			return `${folder}${uri.substring(key.length)}`;
+		}
+	}
+	return uri;
+}
+
+interface LocalDocument {
+	text: string;
+	mapping?: LineMapping;
+}
+
+/**
+ * The text of the opened documents in local folders. An edit replaces the entry.
+ */
+const localDocuments: Map<string, LocalDocument> = new Map();
+
+/**
+ * The mappings of local documents which aren't open, by local URI. A mapping is
+ * valid as long as the file keeps its modification time.
+ */
+const fileMappings: Map<string, { mtime: number; mapping: LineMapping | undefined }> = new Map();
+
+/**
+ * Drops all mappings. Needed when the indexed content or the local folder changes.
+ */
+function clearLineMappings(): void {
+	fileMappings.clear();
+	for (const document of localDocuments.values()) {
+		document.mapping = undefined;
+	}
+}
+
+/**
+ * Returns the mapping between the content of a document indexed in the database
+ * and the local document. The local document is read from disk if it isn't open.
+ * Documents whose content isn't part of the dump have no mapping.
+ */
+async function getLineMapping(localUri: string, uri: string): Promise<LineMapping | undefined> {
+	const document = localDocuments.get(localUri);
+	if (document !== undefined && document.mapping !== undefined) {
+		return document.mapping;
+	}
+	let mtime: number | undefined;
+	if (document === undefined) {
+		try {
+			mtime = (await promisify(fs.stat)(URI.parse(localUri).fsPath)).mtimeMs;
+		} catch (err) {
+			fileMappings.delete(localUri);
+			return undefined;
+		}
+		const cached = fileMappings.get(localUri);
+		if (cached !== undefined && cached.mtime === mtime) {
+			return cached.mapping;
+		}
+	}
+	let promise = findDatabase(uri);
+	if (promise === undefined) {
+		return undefined;
+	}
+	let database = await promise;
+	let indexed = database.readIndexedContent(uri);
+	let text: string | undefined;
+	if (document !== undefined) {
+		text = document.text;
+	} else if (indexed !== undefined) {
+		try {
+			text = await promisify(fs.readFile)(URI.parse(localUri).fsPath, 'utf8');
+		} catch (err) {
+			return undefined;
+		}
+	}
+	const mapping = indexed !== undefined && text !== undefined ? LineMapping.create(indexed.toString('utf8'), text) : undefined;
+	if (document !== undefined) {
+		document.mapping = mapping;
+	} else {
+		fileMappings.set(localUri, { mtime: mtime!, mapping });
+	}
+	return mapping;
+}
+
+/**
+ * Maps a position in a local document onto the content indexed in the database.
+ * Returns `undefined` if the line of the position got changed.
+ */
+async function asDatabasePosition(localUri: string, uri: string, position: Position): Promise<Position | undefined> {
+	if (localUri === uri) {
+		return position;
+	}
+	const mapping = await getLineMapping(localUri, uri);
+	return mapping !== undefined ? mapping.toOriginal(position) : position;
+}
+
+/**
+ * Requests from documents in a local folder get their locations in the local folders
+ * as well. Locations in documents no folder is mapped onto stay in the database.
+ * Locations in lines changed locally are left out.
+ */
+async function asClientLocations<T extends Location | Location[] | undefined>(documentUri: string, value: T): Promise<T> {
+	if (value === undefined || fromLocalFolder(documentUri) === documentUri) {
+		return value;
+	}
+	const result = await mapLocations(Array.isArray(value) ? value : [value as Location], toLocalFolder, getLineMapping);
+	return (Array.isArray(value) ? result : result[0]) as T;
+}
+
+const checkedDocuments: Set<string> = new Set();
+/**
+ * Warns if a document in a local folder differs from the content indexed in the
+ * database. Every document is only checked once.
+ */
+async function checkLocalDocument(uri: string, localUri: string): Promise<void> {
+	let promise = findDatabase(uri);
+	if (promise === undefined || checkedDocuments.has(localUri)) {
+		return;
+	}
+	checkedDocuments.add(localUri);
+	let database = await promise;
+	let indexed = database.documentHash(uri);
+	if (indexed === undefined) {
+		return;
+	}
+	let content: Buffer;
+	try {
+		content = await promisify(fs.readFile)(URI.parse(localUri).fsPath);
+	} catch (err) {
+		return;
+	}
+	if (Database.hash(content) !== indexed) {
+		const name = path.basename(URI.parse(localUri).fsPath);
+		const dump = path.basename(URI.parse(findDatabaseKey(uri)!).fsPath);
+		connection.window.showWarningMessage(`${name} differs from the version indexed in ${dump}. LSIF results in changed lines are left out.`);
+	}
+}
+
+type DiagnosticsScope = 'document' | 'database';
+let hasConfigurationCapability: boolean = false;
+async function getDiagnosticsScope(): Promise<DiagnosticsScope> {
+	if (!hasConfigurationCapability) {
+		return 'document';
+	}
+	let value = await connection.workspace.getConfiguration('lsif.diagnostics.scope');
+	return value === 'database' ? 'database' : 'document';
+}
+
+const publishedDiagnostics: Map<string, Set<string>> = new Map();
+function publishDiagnostics(key: string, uri: string, diagnostics: Diagnostic[]): void {
+	let uris = publishedDiagnostics.get(key);
+	if (uris === undefined) {
+		uris = new Set();
+		publishedDiagnostics.set(key, uris);
+	}
+	if (diagnostics.length > 0) {
+		uris.add(uri);
+	} else {
+		uris.delete(uri);
+	}
+	connection.sendDiagnostics({ uri, diagnostics });
+}
+
+async function publishDatabaseDiagnostics(key: string, database: Database): Promise<void> {
+	if (await getDiagnosticsScope() !== 'database') {
+		return;
+	}
+	for (let item of database.allDiagnostics()) {
+		publishDiagnostics(key, item.uri, item.diagnostics);
+	}
+}
+
+function clearDatabaseDiagnostics(key: string): void {
+	const uris = publishedDiagnostics.get(key);
+	if (uris === undefined) {
+		return;
+	}
+	publishedDiagnostics.delete(key);
+	for (let uri of uris) {
+		connection.sendDiagnostics({ uri, diagnostics: [] });
+	}
+}
+
 let registrations: Thenable<BulkUnregistration> | undefined;
 async function checkRegistrations(): Promise<void> {
 	if (databases.size === 0 && registrations !== undefined) {
@@ -175,15 +726,27 @@ async function checkRegistrations(): Promise<void> {
 			{ scheme: 'lsif', exclusive: true } as DocumentFilter
 		];
 		let toRegister: BulkRegistration = BulkRegistration.create();
+		toRegister.add(DidOpenTextDocumentNotification.type, {
+			documentSelector
+		});
+		toRegister.add(DidCloseTextDocumentNotification.type, {
+			documentSelector
+		});
 		toRegister.add(DocumentSymbolRequest.type, {
 			documentSelector
 		});
 		toRegister.add(FoldingRangeRequest.type, {
 			documentSelector
 		});
+		toRegister.add(DocumentLinkRequest.type, {
+			documentSelector
+		});
 		toRegister.add(DefinitionRequest.type, {
 			documentSelector
 		});
+		toRegister.add(TypeDefinitionRequest.type, {
+			documentSelector
+		});
 		toRegister.add(DeclarationRequest.type, {
 			documentSelector
 		});
@@ -193,11 +756,77 @@ async function checkRegistrations(): Promise<void> {
 		toRegister.add(ReferencesRequest.type, {
 			documentSelector
 		});
+		toRegister.add(ImplementationRequest.type, {
+			documentSelector
+		});
+		toRegister.add(CallHierarchyPrepareRequest.type, {
+			documentSelector
+		});
+		toRegister.add(SemanticTokensRegistrationType.type, {
+			documentSelector,
+			legend: semanticTokensLegend,
+			full: true,
+			range: true
+		});
+		toRegister.add(WorkspaceSymbolRequest.type, {});
 		registrations = connection.client.register(toRegister);
 	}
 }
 
+let localRegistrations: Thenable<BulkUnregistration> | undefined;
+let registeredLocalFolders: string = '';
+function checkLocalRegistrations(): void {
+	const folders = Array.from(new Set(localFolders.values())).sort();
+	if (folders.join('\n') === registeredLocalFolders) {
+		return;
+	}
+	registeredLocalFolders = folders.join('\n');
+	// The client opens the documents again for the new registrations.
+	localDocuments.clear();
+	if (localRegistrations !== undefined) {
+		localRegistrations.then(unregister => unregister.dispose(), error => connection.console.error('Failed to unregister listeners.'));
+		localRegistrations = undefined;
+	}
+	if (folders.length === 0) {
+		return;
+	}
+	let documentSelector: DocumentSelector = folders.map((folder) => {
+		return { scheme: 'file', pattern: `${URI.parse(folder).fsPath.replace(/\\/g, '/').replace(/\/$/, '')}/**` };
+	});
+	let toRegister: BulkRegistration = BulkRegistration.create();
+	toRegister.add(DidOpenTextDocumentNotification.type, {
+		documentSelector
+	});
+	toRegister.add(DidChangeTextDocumentNotification.type, {
+		documentSelector,
+		syncKind: TextDocumentSyncKind.Full
+	});
+	toRegister.add(DidCloseTextDocumentNotification.type, {
+		documentSelector
+	});
+	toRegister.add(DefinitionRequest.type, {
+		documentSelector
+	});
+	toRegister.add(TypeDefinitionRequest.type, {
+		documentSelector
+	});
+	toRegister.add(DeclarationRequest.type, {
+		documentSelector
+	});
+	toRegister.add(HoverRequest.type, {
+		documentSelector
+	});
+	toRegister.add(ReferencesRequest.type, {
+		documentSelector
+	});
+	toRegister.add(ImplementationRequest.type, {
+		documentSelector
+	});
+	localRegistrations = connection.client.register(toRegister);
+}
+
 connection.onInitialize((params: InitializeParams) => {
+	hasConfigurationCapability = !!params.capabilities.workspace?.configuration;
 	if (params.workspaceFolders) {
 		for (let folder of params.workspaceFolders) {
 			workspaceFolders.set(folder.uri, folder);
@@ -221,7 +850,10 @@ connection.onInitialized(async () => {
 			const uri: URI = URI.parse(folder.uri);
 			if (uri.scheme === LSIF_SCHEME) {
 				try {
-					await createDatabase(folder);
+					const database = await createDatabase(folder);
+					if (database !== undefined) {
+						await publishDatabaseDiagnostics(getDatabaseKey(folder.uri), database);
+					}
 				} catch (err: any) {
 					connection.console.error(err.message);
 				}
@@ -230,33 +862,49 @@ connection.onInitialized(async () => {
 	} finally {
 		_sortedDatabaseKeys = undefined;
 		checkRegistrations();
+		checkLocalRegistrations();
 	}
 	// handle updates.
 	connection.workspace.onDidChangeWorkspaceFolders(async (event) => {
-		for (let removed of event.removed) {
-			const uri: URI = URI.parse(removed.uri);
-			if (uri.scheme === LSIF_SCHEME) {
-				const dbKey = getDatabaseKey(removed.uri);
-				const promise = databases.get(dbKey);
-				if (promise) {
-					promise.then((database) => {
-						try {
-							database.close();
-						} finally {
-							databases.delete(dbKey);
-						}
-					});
+		try {
+			for (let removed of event.removed) {
+				const uri: URI = URI.parse(removed.uri);
+				if (uri.scheme === LSIF_SCHEME) {
+					const dbKey = getDatabaseKey(removed.uri);
+					clearDatabaseDiagnostics(dbKey);
+					localFolders.delete(dbKey);
+					loadedDatabases.delete(dbKey);
+					clearLineMappings();
+					const promise = databases.get(dbKey);
+					if (promise) {
+						promise.then((database) => {
+							try {
+								database.close();
+							} finally {
+								databases.delete(dbKey);
+							}
+						}, () => databases.delete(dbKey));
+					}
 				}
 			}
-		}
-		for (let added of event.added) {
-			const uri: URI = URI.parse(added.uri);
-			if (uri.scheme === LSIF_SCHEME) {
-				await createDatabase(added);
+			for (let added of event.added) {
+				const uri: URI = URI.parse(added.uri);
+				if (uri.scheme === LSIF_SCHEME) {
+					try {
+						const database = await createDatabase(added);
+						if (database !== undefined) {
+							await publishDatabaseDiagnostics(getDatabaseKey(added.uri), database);
+						}
+					} catch (err: any) {
+						connection.console.error(err.message);
+					}
+				}
 			}
+		} finally {
+			_sortedDatabaseKeys = undefined;
+			checkRegistrations();
+			checkLocalRegistrations();
 		}
-		_sortedDatabaseKeys = undefined;
-		checkRegistrations();
 	});
 });
 
@@ -268,6 +916,7 @@ connection.onShutdown(() => {
 	} finally {
 		_sortedDatabaseKeys = undefined;
 		databases.clear();
+		loadedDatabases.clear();
 	}
 });
 
@@ -298,6 +947,178 @@ connection.onRequest(ReadFileRequest.type, async (params) => {
 	return database.readFileContent(params.uri);
 });
 
+connection.onRequest(VersionTagsRequest.type, async (params) => {
+	const module = await import('./blobStore');
+	let promise = findDatabase(params.uri);
+	if (promise !== undefined) {
+		let database = await promise;
+		return database instanceof module.BlobStore ? database.getVersionTags() : [];
+	}
+	// The database isn't mounted yet. Read the tags from the file.
+	const fsPath = URI.parse(params.uri).fsPath;
+	if (path.extname(fsPath) !== '.db' || !fs.existsSync(fsPath)) {
+		return [];
+	}
+	return module.BlobStore.readVersionTags(fsPath);
+});
+
+connection.onRequest(SetVersionRequest.type, async (params) => {
+	const module = await import('./blobStore');
+	let key = findDatabaseKey(params.uri);
+	if (key === undefined) {
+		throw new Error(`No LSIF database mounted for ${params.uri}`);
+	}
+	let database = await databases.get(key)!;
+	if (!(database instanceof module.BlobStore)) {
+		throw new Error(`The LSIF database ${params.uri} has no versions.`);
+	}
+	clearDatabaseDiagnostics(key);
+	database.setVersion(params.version);
+	clearLineMappings();
+	checkedDocuments.clear();
+	await publishDatabaseDiagnostics(key, database);
+});
+
+connection.onRequest(SetLocalFolderRequest.type, async (params) => {
+	let key = findDatabaseKey(params.uri);
+	if (key === undefined) {
+		throw new Error(`No LSIF database mounted for ${params.uri}`);
+	}
+	if (params.folder !== null) {
+		localFolders.set(key, getDatabaseKey(params.folder));
+	} else {
+		localFolders.delete(key);
+	}
+	checkedDocuments.clear();
+	clearLineMappings();
+	checkLocalRegistrations();
+});
+
+connection.onRequest(VersionDiffRequest.type, async (params) => {
+	const module = await import('./blobStore');
+	let promise = findDatabase(params.uri);
+	if (promise === undefined) {
+		throw new Error(`No LSIF database mounted for ${params.uri}`);
+	}
+	let database = await promise;
+	if (!(database instanceof module.BlobStore)) {
+		throw new Error(`The LSIF database ${params.uri} has no versions.`);
+	}
+	return database.diffVersions(params.from, params.to);
+});
+
+connection.onRequest(ReadDocumentByHashRequest.type, async (params) => {
+	const module = await import('./blobStore');
+	let promise = findDatabase(params.uri);
+	if (promise === undefined) {
+		return null;
+	}
+	let database = await promise;
+	if (!(database instanceof module.BlobStore)) {
+		return null;
+	}
+	let result = database.readDocumentByHash(params.documentHash);
+	return result !== undefined ? result : null;
+});
+
+connection.onRequest(StatisticsRequest.type, async (params) => {
+	let promise = findDatabase(params.uri);
+	if (promise === undefined) {
+		throw new Error(`No LSIF database mounted for ${params.uri}`);
+	}
+	let database = await promise;
+	return database.statistics();
+});
+
+connection.onRequest(InspectRequest.type, async (params) => {
+	let promise = findDatabase(params.uri);
+	if (promise === undefined) {
+		return null;
+	}
+	let database = await promise;
+	return database.inspect(params.uri, params.position) ?? null;
+});
+
+connection.onRequest(OutlineRequest.type, async (params) => {
+	let promise = findDatabase(params.uri);
+	if (promise === undefined) {
+		throw new Error(`No LSIF database mounted for ${params.uri}`);
+	}
+	let database = await promise;
+	return database.outline();
+});
+
+connection.onRequest(ListMonikersRequest.type, async (params) => {
+	let promise = findDatabase(params.uri);
+	if (promise === undefined) {
+		throw new Error(`No LSIF database mounted for ${params.uri}`);
+	}
+	let database = await promise;
+	return database.listMonikers(params.scheme, params.kind);
+});
+
+connection.onRequest(ImportDumpRequest.type, async (params) => {
+	const module = await import('./importer');
+	const dump = URI.parse(params.dump).fsPath;
+	const progress = await connection.window.createWorkDoneProgress();
+	progress.begin(`Converting ${path.basename(dump)}`, 0, undefined, true);
+	try {
+		return await module.importDump(dump, URI.parse(params.database).fsPath, {
+			format: params.format,
+			tag: params.tag,
+			progress: reportBytes(progress),
+			token: progress.token
+		});
+	} finally {
+		progress.done();
+	}
+});
+
+connection.onDidOpenTextDocument(async (params) => {
+	try {
+		let uri = fromLocalFolder(params.textDocument.uri);
+		if (uri !== params.textDocument.uri) {
+			localDocuments.set(params.textDocument.uri, { text: params.textDocument.text });
+			fileMappings.delete(params.textDocument.uri);
+			await checkLocalDocument(uri, params.textDocument.uri);
+			return;
+		}
+		let key = findDatabaseKey(params.textDocument.uri);
+		if (key === undefined || await getDiagnosticsScope() !== 'document') {
+			return;
+		}
+		let database = await databases.get(key)!;
+		let diagnostics = database.diagnostics(params.textDocument.uri);
+		if (diagnostics !== undefined && diagnostics.length > 0) {
+			publishDiagnostics(key, params.textDocument.uri, diagnostics);
+		}
+	} catch (err: any) {
+		// A database that failed to load has nothing to publish.
+		connection.console.error(`Failed to process the opened document ${params.textDocument.uri}: ${err.message}`);
+	}
+});
+
+connection.onDidChangeTextDocument((params) => {
+	// Local documents are synced in full.
+	const changes = params.contentChanges;
+	if (localDocuments.has(params.textDocument.uri) && changes.length > 0) {
+		localDocuments.set(params.textDocument.uri, { text: changes[changes.length - 1].text });
+	}
+});
+
+connection.onDidCloseTextDocument(async (params) => {
+	localDocuments.delete(params.textDocument.uri);
+	let key = findDatabaseKey(params.textDocument.uri);
+	try {
+		if (key === undefined || await getDiagnosticsScope() !== 'document') {
+			return;
+		}
+		publishDiagnostics(key, params.textDocument.uri, []);
+	} catch (err: any) {
+		connection.console.error(`Failed to process the closed document ${params.textDocument.uri}: ${err.message}`);
+	}
+});
+
 connection.onDocumentSymbol(async (params) => {
 	let promise = findDatabase(params.textDocument.uri);
 	if (promise === undefined) {
@@ -316,40 +1137,322 @@ connection.onFoldingRanges(async (params) => {
 	return database.foldingRanges(params.textDocument.uri);
 });
 
-connection.onHover(async (params) => {
+connection.onDocumentLinks(async (params) => {
 	let promise = findDatabase(params.textDocument.uri);
 	if (promise === undefined) {
 		return null;
 	}
 	let database = await promise;
-	return database.hover(params.textDocument.uri, params.position);
+	return database.documentLinks(params.textDocument.uri);
+});
+
+connection.onWorkspaceSymbol(async (params) => {
+	// Ask every database and merge the results. A database that failed to load contributes nothing.
+	const all = await Promise.all(Array.from(databases.values()).map(async (promise) => {
+		try {
+			const database = await promise;
+			return database.workspaceSymbols(params.query);
+		} catch (err) {
+			return [];
+		}
+	}));
+	const result: SymbolInformation[] = [];
+	for (const symbols of all) {
+		result.push(...symbols);
+	}
+	return result;
+});
+
+/**
+ * Looks up the import and export monikers at a position in all other mounted databases.
+ * This links dumps of different projects which use each other. Databases which are
+ * still loading aren't waited for.
+ */
+async function findByMoniker(database: Database, uri: string, position: Position): Promise<MonikerResults[]> {
+	const monikers = database.monikers(uri, position).filter(moniker => moniker.kind !== MonikerKind.local);
+	if (monikers.length === 0) {
+		return [];
+	}
+	const find = (candidates: MonikerInfo[], exactPackage: boolean): MonikerResults[] => {
+		const result: MonikerResults[] = [];
+		for (const other of loadedDatabases.values()) {
+			if (other === database) {
+				continue;
+			}
+			for (const moniker of candidates) {
+				const results = other.findByMoniker(moniker.scheme, moniker.identifier, exactPackage ? moniker.packageInformation : undefined);
+				if (results !== undefined) {
+					result.push(results);
+				}
+			}
+		}
+		return result;
+	};
+	// Monikers with package information select the exact package version. This keeps
+	// dumps of other versions of the same library out. Only if no database has that
+	// version the monikers are matched by scheme and identifier. Blob databases have
+	// no package information and only take part in that fallback.
+	const versioned = monikers.filter(moniker => moniker.packageInformation !== undefined);
+	if (versioned.length > 0) {
+		const result = find(versioned, true);
+		if (result.length > 0 || !await getMatchAnyVersion()) {
+			return result;
+		}
+	}
+	return find(monikers, false);
+}
+
+async function getMatchAnyVersion(): Promise<boolean> {
+	if (!hasConfigurationCapability) {
+		return true;
+	}
+	return await connection.workspace.getConfiguration('lsif.monikers.matchAnyVersion') !== false;
+}
+
+/**
+ * Adds the packages of the symbol's import monikers to a hover.
+ */
+function addPackageInformation(hover: Hover, monikers: MonikerInfo[]): Hover {
+	const packages: PackageInfo[] = [];
+	for (const moniker of monikers) {
+		const value = moniker.packageInformation;
+		if (moniker.kind === MonikerKind.import && value !== undefined && !packages.some(item => item.manager === value.manager && item.name === value.name && item.version === value.version)) {
+			packages.push(value);
+		}
+	}
+	if (packages.length === 0) {
+		return hover;
+	}
+	const text = packages.map(item => `Package ${item.name}${item.version !== undefined ? `@${item.version}` : ''} (${item.manager})`).join('\n\n');
+	let contents: MarkupContent | MarkedString | MarkedString[];
+	if (MarkupContent.is(hover.contents)) {
+		const separator = hover.contents.kind === MarkupKind.Markdown ? '\n\n---\n\n' : '\n\n';
+		contents = { kind: hover.contents.kind, value: `${hover.contents.value}${separator}${text}` };
+	} else if (Array.isArray(hover.contents)) {
+		contents = [...hover.contents, text];
+	} else {
+		contents = [hover.contents, text];
+	}
+	return { contents, range: hover.range };
+}
+
+function isEmpty(value: Location | Location[] | undefined): boolean {
+	return value === undefined || (Array.isArray(value) && value.length === 0);
+}
+
+function mergeLocations(target: Location[], values: Location[], dedup: Set<string>): void {
+	for (const location of values) {
+		const range = location.range;
+		const key = `${location.uri}|${range.start.line}|${range.start.character}|${range.end.line}|${range.end.character}`;
+		if (!dedup.has(key)) {
+			dedup.add(key);
+			target.push(location);
+		}
+	}
+}
+
+connection.onHover(async (params) => {
+	let uri = fromLocalFolder(params.textDocument.uri);
+	let promise = findDatabase(uri);
+	if (promise === undefined) {
+		return null;
+	}
+	let database = await promise;
+	let position = await asDatabasePosition(params.textDocument.uri, uri, params.position);
+	if (position === undefined) {
+		return null;
+	}
+	let result: Hover | undefined = database.hover(uri, position);
+	if (result === undefined) {
+		for (const results of await findByMoniker(database, uri, position)) {
+			if (results.hover !== undefined) {
+				// The range is one in the other database.
+				result = { contents: results.hover.contents };
+				break;
+			}
+		}
+	}
+	if (result === undefined) {
+		return null;
+	}
+	result = addPackageInformation(result, database.monikers(uri, position));
+	if (result.range !== undefined && uri !== params.textDocument.uri) {
+		const mapping = await getLineMapping(params.textDocument.uri, uri);
+		result = { contents: result.contents, range: mapping !== undefined ? mapping.toModifiedRange(result.range) : result.range };
+	}
+	return result;
 });
 
 connection.onDeclaration(async (params) => {
-	let promise = findDatabase(params.textDocument.uri);
+	let uri = fromLocalFolder(params.textDocument.uri);
+	let promise = findDatabase(uri);
 	if (promise === undefined) {
 		return null;
 	}
 	let database = await promise;
-	return database.declarations(params.textDocument.uri, params.position);
+	let position = await asDatabasePosition(params.textDocument.uri, uri, params.position);
+	if (position === undefined) {
+		return null;
+	}
+	let result = database.declarations(uri, position);
+	if (!isEmpty(result)) {
+		return asClientLocations(params.textDocument.uri, result);
+	}
+	const locations: Location[] = [];
+	const dedup: Set<string> = new Set();
+	for (const results of await findByMoniker(database, uri, position)) {
+		mergeLocations(locations, results.declarations, dedup);
+	}
+	if (locations.length === 0) {
+		return null;
+	}
+	return asClientLocations(params.textDocument.uri, locations);
 });
 
 connection.onDefinition(async (params) => {
-	let promise = findDatabase(params.textDocument.uri);
+	let uri = fromLocalFolder(params.textDocument.uri);
+	let promise = findDatabase(uri);
+	if (promise === undefined) {
+		return null;
+	}
+	let database = await promise;
+	let position = await asDatabasePosition(params.textDocument.uri, uri, params.position);
+	if (position === undefined) {
+		return null;
+	}
+	let result = database.definitions(uri, position);
+	if (!isEmpty(result)) {
+		return asClientLocations(params.textDocument.uri, result);
+	}
+	const locations: Location[] = [];
+	const dedup: Set<string> = new Set();
+	for (const results of await findByMoniker(database, uri, position)) {
+		mergeLocations(locations, results.definitions, dedup);
+	}
+	if (locations.length === 0) {
+		return null;
+	}
+	return asClientLocations(params.textDocument.uri, locations);
+});
+
+connection.onTypeDefinition(async (params) => {
+	let uri = fromLocalFolder(params.textDocument.uri);
+	let promise = findDatabase(uri);
 	if (promise === undefined) {
 		return null;
 	}
 	let database = await promise;
-	return database.definitions(params.textDocument.uri, params.position);
+	let position = await asDatabasePosition(params.textDocument.uri, uri, params.position);
+	if (position === undefined) {
+		return null;
+	}
+	return asClientLocations(params.textDocument.uri, database.typeDefinitions(uri, position));
 });
 
 connection.onReferences(async (params) => {
+	let uri = fromLocalFolder(params.textDocument.uri);
+	let promise = findDatabase(uri);
+	if (promise === undefined) {
+		return null;
+	}
+	let database = await promise;
+	let position = await asDatabasePosition(params.textDocument.uri, uri, params.position);
+	if (position === undefined) {
+		return null;
+	}
+	// References in other databases are always added. They are the uses of an exported symbol.
+	const locations: Location[] = [];
+	const dedup: Set<string> = new Set();
+	mergeLocations(locations, database.references(uri, position, params.context) ?? [], dedup);
+	for (const results of await findByMoniker(database, uri, position)) {
+		if (params.context.includeDeclaration) {
+			mergeLocations(locations, results.declarations, dedup);
+			mergeLocations(locations, results.definitions, dedup);
+		}
+		mergeLocations(locations, results.references, dedup);
+	}
+	if (locations.length === 0) {
+		return null;
+	}
+	return asClientLocations(params.textDocument.uri, locations);
+});
+
+connection.languages.callHierarchy.onPrepare(async (params) => {
+	let promise = findDatabase(params.textDocument.uri);
+	if (promise === undefined) {
+		return null;
+	}
+	let database = await promise;
+	return database.prepareCallHierarchy(params.textDocument.uri, params.position) ?? null;
+});
+
+connection.languages.callHierarchy.onIncomingCalls(async (params) => {
+	let promise = findDatabase(params.item.uri);
+	if (promise === undefined) {
+		return null;
+	}
+	let database = await promise;
+	return database.incomingCalls(params.item) ?? null;
+});
+
+connection.languages.callHierarchy.onOutgoingCalls(async (params) => {
+	let promise = findDatabase(params.item.uri);
+	if (promise === undefined) {
+		return null;
+	}
+	let database = await promise;
+	return database.outgoingCalls(params.item) ?? null;
+});
+
+/**
+ * Encodes semantic tokens in document order. Tokens overlapping a previous one are left out.
+ */
+function asSemanticTokens(tokens: SemanticToken[]): SemanticTokens {
+	const sorted = tokens.slice().sort((a, b) => a.range.start.line - b.range.start.line || a.range.start.character - b.range.start.character);
+	const builder = new SemanticTokensBuilder();
+	let previous: SemanticToken | undefined;
+	for (const token of sorted) {
+		const range = token.range;
+		if (previous !== undefined && previous.range.end.line === range.start.line && previous.range.end.character > range.start.character) {
+			continue;
+		}
+		const modifiers = token.modifiers.reduce((bits, modifier) => bits | (1 << semanticTokensLegend.tokenModifiers.indexOf(modifier)), 0);
+		builder.push(range.start.line, range.start.character, range.end.character - range.start.character, semanticTokensLegend.tokenTypes.indexOf(token.type), modifiers);
+		previous = token;
+	}
+	return builder.build();
+}
+
+connection.languages.semanticTokens.on(async (params) => {
 	let promise = findDatabase(params.textDocument.uri);
+	if (promise === undefined) {
+		return { data: [] };
+	}
+	let database = await promise;
+	return asSemanticTokens(database.semanticTokens(params.textDocument.uri) ?? []);
+});
+
+connection.languages.semanticTokens.onRange(async (params) => {
+	let promise = findDatabase(params.textDocument.uri);
+	if (promise === undefined) {
+		return { data: [] };
+	}
+	let database = await promise;
+	return asSemanticTokens(database.semanticTokens(params.textDocument.uri, params.range) ?? []);
+});
+
+connection.onImplementation(async (params) => {
+	let uri = fromLocalFolder(params.textDocument.uri);
+	let promise = findDatabase(uri);
 	if (promise === undefined) {
 		return null;
 	}
 	let database = await promise;
-	return database.references(params.textDocument.uri, params.position, params.context);
+	let position = await asDatabasePosition(params.textDocument.uri, uri, params.position);
+	if (position === undefined) {
+		return null;
+	}
+	return asClientLocations(params.textDocument.uri, database.implementations(uri, position));
 });
 
 connection.listen();
\ No newline at end of file
@@ -0,0 +1,64 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, it, before, after } from 'node:test';
+
+import * as lsp from 'vscode-languageserver';
+
+import { BlobStore } from '../blobStore';
+import { noopTransformer } from '../database';
+import { importDump } from '../importer';
+import { a_ts, b_ts, createTempDirectory, sampleDump, writeDump } from './fixtures';
+
+describe('BlobStore', () => {
+
+	let directory: string;
+	let store: BlobStore;
+
+	before(async () => {
+		directory = createTempDirectory();
+		// A range spanning the whole declaration of `foo`.
+		const elements = sampleDump('blob').concat([
+			{ id: 50, type: 'vertex', label: 'range', start: { line: 0, character: 0 }, end: { line: 0, character: 24 } },
+			{ id: 51, type: 'edge', label: 'contains', outV: 10, inVs: [50] }
+		]);
+		const database = path.join(directory, 'sample.db');
+		await importDump(writeDump(directory, 'sample.lsif', elements), database, { format: 'blob', tag: 'v1' });
+		store = new BlobStore();
+		await store.load(database, () => noopTransformer);
+	});
+
+	after(() => {
+		store.close();
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	it('resolves hover and definitions', () => {
+		const hover = store.hover(b_ts, { line: 1, character: 1 });
+		assert.deepStrictEqual(hover !== undefined ? hover.contents : undefined, ['blob']);
+		assert.deepStrictEqual(store.definitions(b_ts, { line: 1, character: 1 }), [
+			lsp.Location.create(a_ts, lsp.Range.create(0, 16, 0, 19))
+		]);
+	});
+
+	it('only matches monikers without package information', () => {
+		const results = store.findByMoniker('tsc', 'a:foo');
+		assert.ok(results !== undefined);
+		assert.deepStrictEqual(results.definitions, [lsp.Location.create(a_ts, lsp.Range.create(0, 16, 0, 19))]);
+		assert.strictEqual(store.findByMoniker('tsc', 'a:foo', { name: 'a', manager: 'npm', version: '1.0.0' }), undefined);
+	});
+
+	it('inspects every range containing the position', () => {
+		const elements = store.inspect(a_ts, { line: 0, character: 17 });
+		assert.ok(elements !== undefined);
+		assert.deepStrictEqual(elements.map(element => element.id), [11, 50]);
+		assert.deepStrictEqual(elements.map(element => element.location!.range), [
+			lsp.Range.create(0, 16, 0, 19),
+			lsp.Range.create(0, 0, 0, 24)
+		]);
+	});
+});
@@ -0,0 +1,75 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import * as assert from 'assert';
+import * as fs from 'fs';
+import { describe, it, before, after } from 'node:test';
+
+import * as lsp from 'vscode-languageserver';
+
+import { noopTransformer } from '../database';
+import { JsonStore } from '../jsonStore';
+import { a_ts, b_ts, base64, createTempDirectory, workspaceRoot, writeDump } from './fixtures';
+
+/**
+ * `bar` in `b.ts` calls `foo` from `a.ts`. The dump has no document symbol results
+ * so the symbols come from the range tags.
+ */
+const dump: object[] = [
+	{ id: 1, type: 'vertex', label: 'metaData', version: '0.6.0', positionEncoding: 'utf-16' },
+	{ id: 2, type: 'vertex', label: 'source', workspaceRoot },
+	{ id: 10, type: 'vertex', label: 'document', uri: a_ts, languageId: 'typescript', contents: base64('export function foo() {}\n') },
+	{ id: 11, type: 'vertex', label: 'range', start: { line: 0, character: 16 }, end: { line: 0, character: 19 }, tag: { type: 'definition', text: 'foo', kind: 12, fullRange: { start: { line: 0, character: 0 }, end: { line: 0, character: 24 } } } },
+	{ id: 12, type: 'vertex', label: 'resultSet' },
+	{ id: 13, type: 'edge', label: 'next', outV: 11, inV: 12 },
+	{ id: 14, type: 'vertex', label: 'definitionResult' },
+	{ id: 15, type: 'edge', label: 'textDocument/definition', outV: 12, inV: 14 },
+	{ id: 16, type: 'vertex', label: 'referenceResult' },
+	{ id: 17, type: 'edge', label: 'textDocument/references', outV: 12, inV: 16 },
+	{ id: 30, type: 'vertex', label: 'document', uri: b_ts, languageId: 'typescript', contents: base64('import { foo } from "./a";\nfunction bar() {\n\tfoo();\n}\n') },
+	{ id: 31, type: 'vertex', label: 'range', start: { line: 1, character: 9 }, end: { line: 1, character: 12 }, tag: { type: 'definition', text: 'bar', kind: 12, fullRange: { start: { line: 1, character: 0 }, end: { line: 3, character: 1 } } } },
+	{ id: 32, type: 'vertex', label: 'range', start: { line: 2, character: 1 }, end: { line: 2, character: 4 } },
+	{ id: 33, type: 'edge', label: 'next', outV: 32, inV: 12 },
+	{ id: 40, type: 'edge', label: 'item', outV: 14, inVs: [11], shard: 10 },
+	{ id: 41, type: 'edge', label: 'item', outV: 16, inVs: [11], shard: 10, property: 'definitions' },
+	{ id: 42, type: 'edge', label: 'item', outV: 16, inVs: [32], shard: 30, property: 'references' },
+	{ id: 43, type: 'edge', label: 'contains', outV: 10, inVs: [11] },
+	{ id: 44, type: 'edge', label: 'contains', outV: 30, inVs: [31, 32] }
+];
+
+describe('Call hierarchy', () => {
+
+	let directory: string;
+	let store: JsonStore;
+
+	before(async () => {
+		directory = createTempDirectory();
+		store = new JsonStore();
+		await store.load(writeDump(directory, 'calls.lsif', dump), () => noopTransformer);
+	});
+
+	after(() => {
+		store.close();
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	it('uses range tags when there are no document symbols', () => {
+		const items = store.prepareCallHierarchy(b_ts, { line: 2, character: 2 });
+		assert.ok(items !== undefined && items.length === 1);
+		assert.strictEqual(items[0].name, 'foo');
+		assert.strictEqual(items[0].uri, a_ts);
+		assert.deepStrictEqual(items[0].selectionRange, lsp.Range.create(0, 16, 0, 19));
+
+		const incoming = store.incomingCalls(items[0]);
+		assert.ok(incoming !== undefined && incoming.length === 1);
+		assert.strictEqual(incoming[0].from.name, 'bar');
+		assert.deepStrictEqual(incoming[0].from.range, lsp.Range.create(1, 0, 3, 1));
+		assert.deepStrictEqual(incoming[0].fromRanges, [lsp.Range.create(2, 1, 2, 4)]);
+
+		const outgoing = store.outgoingCalls(incoming[0].from);
+		assert.ok(outgoing !== undefined && outgoing.length === 1);
+		assert.strictEqual(outgoing[0].to.name, 'foo');
+		assert.deepStrictEqual(outgoing[0].fromRanges, [lsp.Range.create(2, 1, 2, 4)]);
+	});
+});
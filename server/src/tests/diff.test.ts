@@ -0,0 +1,113 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+
+import * as lsp from 'vscode-languageserver';
+
+import { LineMapping, mapLocations } from '../diff';
+
+function lines(count: number, prefix: string = 'line'): string[] {
+	const result: string[] = [];
+	for (let i = 0; i < count; i++) {
+		result.push(`${prefix} ${i}`);
+	}
+	return result;
+}
+
+describe('LineMapping', () => {
+
+	it('maps unchanged documents one to one', () => {
+		const text = lines(5).join('\n');
+		const mapping = LineMapping.create(text, text);
+		for (let line = 0; line < 5; line++) {
+			assert.deepStrictEqual(mapping.toModified(lsp.Position.create(line, 3)), lsp.Position.create(line, 3));
+			assert.deepStrictEqual(mapping.toOriginal(lsp.Position.create(line, 3)), lsp.Position.create(line, 3));
+		}
+	});
+
+	it('maps around inserted lines', () => {
+		const original = lines(6);
+		const modified = original.slice(0, 2).concat(['new 1', 'new 2'], original.slice(2, 4), ['new 3'], original.slice(4));
+		const mapping = LineMapping.create(original.join('\n'), modified.join('\r\n'));
+		assert.deepStrictEqual([0, 1, 2, 3, 4, 5].map(line => mapping.toModified(lsp.Position.create(line, 0))?.line), [0, 1, 4, 5, 7, 8]);
+		assert.strictEqual(mapping.toOriginal(lsp.Position.create(2, 0)), undefined);
+		assert.strictEqual(mapping.toOriginal(lsp.Position.create(6, 0)), undefined);
+		assert.deepStrictEqual(mapping.toOriginal(lsp.Position.create(8, 2)), lsp.Position.create(5, 2));
+	});
+
+	it('maps around deleted lines', () => {
+		const original = lines(8);
+		const modified = [original[0], original[3], original[4], original[7]];
+		const mapping = LineMapping.create(original.join('\n'), modified.join('\n'));
+		assert.deepStrictEqual([0, 1, 2, 3, 4, 5, 6, 7].map(line => mapping.toModified(lsp.Position.create(line, 0))?.line), [0, undefined, undefined, 1, 2, undefined, undefined, 3]);
+		assert.deepStrictEqual([0, 1, 2, 3].map(line => mapping.toOriginal(lsp.Position.create(line, 0))?.line), [0, 3, 4, 7]);
+	});
+
+	it('maps positions on changed lines to undefined', () => {
+		const original = lines(3);
+		const modified = [original[0], 'changed', original[2]];
+		const mapping = LineMapping.create(original.join('\n'), modified.join('\n'));
+		assert.strictEqual(mapping.toModified(lsp.Position.create(1, 0)), undefined);
+		assert.strictEqual(mapping.toOriginal(lsp.Position.create(1, 0)), undefined);
+		assert.strictEqual(mapping.toModifiedRange(lsp.Range.create(0, 0, 1, 2)), undefined);
+		assert.deepStrictEqual(mapping.toModifiedRange(lsp.Range.create(2, 0, 2, 4)), lsp.Range.create(2, 0, 2, 4));
+		assert.strictEqual(mapping.toModified(lsp.Position.create(10, 0)), undefined);
+	});
+
+	it('only keeps the common prefix and suffix beyond maxEdits', () => {
+		const original = ['first'].concat(lines(600, 'old'), ['shared'], lines(600, 'old'), ['last']);
+		const modified = ['first'].concat(lines(600, 'new'), ['shared'], lines(600, 'new'), ['last']);
+		const mapping = LineMapping.create(original.join('\n'), modified.join('\n'));
+		assert.deepStrictEqual(mapping.toModified(lsp.Position.create(0, 0)), lsp.Position.create(0, 0));
+		assert.deepStrictEqual(mapping.toModified(lsp.Position.create(1202, 0)), lsp.Position.create(1202, 0));
+		// 2400 inserted and deleted lines. The shared line would be matched otherwise.
+		assert.strictEqual(mapping.toModified(lsp.Position.create(601, 0)), undefined);
+	});
+
+	it('matches lines within maxEdits', () => {
+		// 800 inserted and deleted lines.
+		const original = ['first'].concat(lines(200, 'old'), ['shared'], lines(200, 'old'), ['last']);
+		const modified = ['first'].concat(lines(200, 'new'), ['shared'], lines(200, 'new'), ['last']);
+		const mapping = LineMapping.create(original.join('\n'), modified.join('\n'));
+		assert.deepStrictEqual(mapping.toModified(lsp.Position.create(201, 5)), lsp.Position.create(201, 5));
+		assert.strictEqual(mapping.toModified(lsp.Position.create(200, 0)), undefined);
+	});
+});
+
+describe('mapLocations', () => {
+
+	const indexed = 'lsif:///dump/a.ts';
+	const local = 'file:///local/a.ts';
+	const other = 'lsif:///dump/b.ts';
+	const toLocal = (uri: string): string => uri === indexed ? local : uri;
+
+	it('drops locations on changed lines and keeps documents without mapping', async () => {
+		const mapping = LineMapping.create(['a', 'b', 'c'].join('\n'), ['a', 'inserted', 'b', 'changed'].join('\n'));
+		let requests = 0;
+		const result = await mapLocations([
+			lsp.Location.create(indexed, lsp.Range.create(0, 0, 0, 1)),
+			lsp.Location.create(indexed, lsp.Range.create(1, 0, 1, 1)),
+			lsp.Location.create(indexed, lsp.Range.create(2, 0, 2, 1)),
+			lsp.Location.create(other, lsp.Range.create(2, 0, 2, 1))
+		], toLocal, async (localUri, uri) => {
+			requests++;
+			assert.strictEqual(localUri, local);
+			assert.strictEqual(uri, indexed);
+			return mapping;
+		});
+		assert.deepStrictEqual(result, [
+			lsp.Location.create(local, lsp.Range.create(0, 0, 0, 1)),
+			lsp.Location.create(local, lsp.Range.create(2, 0, 2, 1)),
+			lsp.Location.create(other, lsp.Range.create(2, 0, 2, 1))
+		]);
+		assert.strictEqual(requests, 1);
+	});
+
+	it('keeps locations unchanged if there is no mapping', async () => {
+		const result = await mapLocations([lsp.Location.create(indexed, lsp.Range.create(5, 0, 5, 1))], toLocal, async () => undefined);
+		assert.deepStrictEqual(result, [lsp.Location.create(local, lsp.Range.create(5, 0, 5, 1))]);
+	});
+});
@@ -0,0 +1,58 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, it, before, after } from 'node:test';
+
+import { Database, noopTransformer } from '../database';
+import { GraphStore } from '../graphStore';
+import { importDump } from '../importer';
+import { JsonStore } from '../jsonStore';
+import { a_ts, b_ts, createTempDirectory, sampleDump, writeDump } from './fixtures';
+
+describe('readIndexedContent', () => {
+
+	let directory: string;
+	const stores: [string, Database][] = [];
+
+	before(async () => {
+		directory = createTempDirectory();
+		// b.ts is indexed without its content.
+		const elements = sampleDump().map((element: any) => element.id === 30 ? Object.assign({}, element, { contents: undefined }) : element);
+		const dump = writeDump(directory, 'noContent.lsif', elements);
+
+		const jsonStore = new JsonStore();
+		await jsonStore.load(dump, () => noopTransformer);
+		stores.push(['JsonStore', jsonStore]);
+
+		await importDump(dump, path.join(directory, 'noContent.db'), { format: 'graph' });
+		const graphStore = new GraphStore();
+		await graphStore.load(path.join(directory, 'noContent.db'), () => noopTransformer);
+		stores.push(['GraphStore', graphStore]);
+	});
+
+	after(() => {
+		for (const [, store] of stores) {
+			store.close();
+		}
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	it('returns the indexed content and its hash', () => {
+		const content = Buffer.from('export function foo() {}\n');
+		for (const [name, store] of stores) {
+			assert.deepStrictEqual(store.readIndexedContent(a_ts), content, name);
+			assert.strictEqual(store.documentHash(a_ts), Database.hash(content), name);
+		}
+	});
+
+	it('has no content or hash for documents indexed without content', () => {
+		for (const [name, store] of stores) {
+			assert.strictEqual(store.readIndexedContent(b_ts), undefined, name);
+			assert.strictEqual(store.documentHash(b_ts), undefined, name);
+		}
+	});
+});
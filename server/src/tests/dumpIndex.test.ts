@@ -0,0 +1,73 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, it, before, after } from 'node:test';
+
+import * as lsp from 'vscode-languageserver';
+import { Vertex, Edge } from 'lsif-protocol';
+
+import { DumpIndex } from '../dumpIndex';
+import { createTempDirectory, sampleDump } from './fixtures';
+
+describe('DumpIndex', () => {
+
+	let directory: string;
+	let index: DumpIndex;
+
+	before(() => {
+		directory = createTempDirectory();
+		const file = path.join(directory, 'index.lsif');
+		const lines = sampleDump('indexed').map(element => JSON.stringify(element));
+		fs.writeFileSync(file, lines.join('\n') + '\n', 'utf8');
+		index = new DumpIndex(file);
+		let offset = 0;
+		for (const line of lines) {
+			const length = Buffer.byteLength(line, 'utf8');
+			const element: Vertex | Edge = JSON.parse(line);
+			if (element.type === 'vertex') {
+				index.addVertex(element, offset, length);
+			} else if (element.label === 'contains') {
+				index.addContains(element.outV, (element as { inVs: number[] }).inVs);
+			} else {
+				index.addEdge(element, offset, length, element.label === 'moniker');
+			}
+			offset += length + 1;
+		}
+	});
+
+	after(() => {
+		index.close();
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	it('keeps the positions of ranges', () => {
+		assert.deepStrictEqual(index.range(11), lsp.Range.create(0, 16, 0, 19));
+		assert.strictEqual(index.range(10), undefined);
+		assert.strictEqual(index.range(99), undefined);
+	});
+
+	it('keeps the contained vertices and their container', () => {
+		assert.deepStrictEqual(index.getContained(3), [10, 30]);
+		assert.deepStrictEqual(index.getContained(30), [31]);
+		assert.strictEqual(index.getContainer(31), 30);
+		assert.strictEqual(index.getContainer(3), undefined);
+	});
+
+	it('reads vertices and edges from the dump', () => {
+		assert.deepStrictEqual(index.vertex(14), { id: 14, type: 'vertex', label: 'hoverResult', result: { contents: ['indexed'] } });
+		assert.deepStrictEqual(index.outgoing(31, 'next').map(edge => edge.id), [32]);
+		assert.deepStrictEqual(index.outgoing(18, 'item').map(edge => edge.id), [41, 42]);
+		assert.ok(index.hasOutgoing(12, 'textDocument/hover'));
+		assert.ok(!index.hasOutgoing(12, 'textDocument/typeDefinition'));
+	});
+
+	it('finds incoming edges added as incoming', () => {
+		assert.deepStrictEqual(index.incoming(20, 'moniker').map(edge => edge.outV), [12]);
+		assert.ok(index.hasIncoming(20, 'moniker'));
+		assert.ok(!index.hasIncoming(12, 'next'));
+	});
+});
@@ -0,0 +1,39 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { describe, it, before, after } from 'node:test';
+
+import { Compression } from '../dumpReader';
+import { createTempDirectory } from './fixtures';
+
+describe('Compression.estimateSize', () => {
+
+	let directory: string;
+
+	before(() => {
+		directory = createTempDirectory();
+	});
+
+	after(() => {
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	it('reads the decompressed size of gzip dumps', () => {
+		const content = Buffer.alloc(64 * 1024, '{}\n');
+		const file = path.join(directory, 'dump.lsif.gz');
+		fs.writeFileSync(file, zlib.gzipSync(content));
+		assert.ok(fs.statSync(file).size < content.length);
+		assert.strictEqual(Compression.estimateSize(file), content.length);
+	});
+
+	it('uses the file size otherwise', () => {
+		const file = path.join(directory, 'dump.lsif');
+		fs.writeFileSync(file, '{}\n');
+		assert.strictEqual(Compression.estimateSize(file), 3);
+	});
+});
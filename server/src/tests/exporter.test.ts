@@ -0,0 +1,76 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, it, before, after } from 'node:test';
+
+import { noopTransformer } from '../database';
+import { exportDump } from '../exporter';
+import { GraphStore } from '../graphStore';
+import { importDump } from '../importer';
+import { JsonStore } from '../jsonStore';
+import { a_ts, b_ts, createTempDirectory, sampleDump, writeDump } from './fixtures';
+
+/**
+ * Gives the vertices higher ids than the edges so that the ids don't follow
+ * the order of the dump.
+ */
+function renumberVertices(elements: object[]): object[] {
+	const shift = (id: number): number => id + 100;
+	return elements.map((element: any) => {
+		if (element.type === 'vertex') {
+			return Object.assign({}, element, { id: shift(element.id) });
+		}
+		const result = Object.assign({}, element, { outV: shift(element.outV) });
+		if (element.inV !== undefined) {
+			result.inV = shift(element.inV);
+		}
+		if (element.inVs !== undefined) {
+			result.inVs = element.inVs.map(shift);
+		}
+		if (element.shard !== undefined) {
+			result.shard = shift(element.shard);
+		}
+		return result;
+	});
+}
+
+describe('exportDump', () => {
+
+	let directory: string;
+
+	before(() => {
+		directory = createTempDirectory();
+	});
+
+	after(() => {
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	it('exports vertices before the edges referencing them', async () => {
+		const database = path.join(directory, 'renumbered.db');
+		await importDump(writeDump(directory, 'renumbered.lsif', renumberVertices(sampleDump('exported'))), database, { format: 'graph' });
+		const graphStore = new GraphStore();
+		await graphStore.load(database, () => noopTransformer);
+		const output = path.join(directory, 'exported.lsif');
+		try {
+			const summary = await exportDump(graphStore, output, {});
+			assert.strictEqual(summary.edges, 12);
+		} finally {
+			graphStore.close();
+		}
+
+		const jsonStore = new JsonStore();
+		await jsonStore.load(output, () => noopTransformer);
+		try {
+			const hover = jsonStore.hover(b_ts, { line: 1, character: 1 });
+			assert.deepStrictEqual(hover !== undefined ? hover.contents : undefined, ['exported']);
+			assert.strictEqual(jsonStore.readFileContent(a_ts), Buffer.from('export function foo() {}\n').toString('base64'));
+		} finally {
+			jsonStore.close();
+		}
+	});
+});
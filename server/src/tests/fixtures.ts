@@ -0,0 +1,136 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import * as Sqlite from 'better-sqlite3';
+
+import { CompressorDescription, CompressorPropertyDescription, CompressionKind, MetaData } from '../protocol.compress';
+
+export const workspaceRoot = 'file:///w';
+export const a_ts = `${workspaceRoot}/a.ts`;
+export const b_ts = `${workspaceRoot}/b.ts`;
+
+/**
+ * A small dump with two documents. `a.ts` defines and exports `foo` which is
+ * referenced from `b.ts`.
+ */
+export function sampleDump(hover: string = 'function foo(): void'): object[] {
+	return [
+		{ id: 1, type: 'vertex', label: 'metaData', version: '0.6.0', positionEncoding: 'utf-16' },
+		{ id: 2, type: 'vertex', label: 'source', workspaceRoot },
+		{ id: 3, type: 'vertex', label: 'project', kind: 'typescript' },
+		{ id: 10, type: 'vertex', label: 'document', uri: a_ts, languageId: 'typescript', contents: base64('export function foo() {}\n') },
+		{ id: 11, type: 'vertex', label: 'range', start: { line: 0, character: 16 }, end: { line: 0, character: 19 }, tag: { type: 'definition', text: 'foo', kind: 12, fullRange: { start: { line: 0, character: 0 }, end: { line: 0, character: 24 } } } },
+		{ id: 12, type: 'vertex', label: 'resultSet' },
+		{ id: 13, type: 'edge', label: 'next', outV: 11, inV: 12 },
+		{ id: 14, type: 'vertex', label: 'hoverResult', result: { contents: [hover] } },
+		{ id: 15, type: 'edge', label: 'textDocument/hover', outV: 12, inV: 14 },
+		{ id: 16, type: 'vertex', label: 'definitionResult' },
+		{ id: 17, type: 'edge', label: 'textDocument/definition', outV: 12, inV: 16 },
+		{ id: 18, type: 'vertex', label: 'referenceResult' },
+		{ id: 19, type: 'edge', label: 'textDocument/references', outV: 12, inV: 18 },
+		{ id: 20, type: 'vertex', label: 'moniker', scheme: 'tsc', identifier: 'a:foo', kind: 'export' },
+		{ id: 21, type: 'edge', label: 'moniker', outV: 12, inV: 20 },
+		{ id: 30, type: 'vertex', label: 'document', uri: b_ts, languageId: 'typescript', contents: base64('import { foo } from "./a";\nfoo();\n') },
+		{ id: 31, type: 'vertex', label: 'range', start: { line: 1, character: 0 }, end: { line: 1, character: 3 } },
+		{ id: 32, type: 'edge', label: 'next', outV: 31, inV: 12 },
+		{ id: 40, type: 'edge', label: 'item', outV: 16, inVs: [11], shard: 10 },
+		{ id: 41, type: 'edge', label: 'item', outV: 18, inVs: [11], shard: 10, property: 'definitions' },
+		{ id: 42, type: 'edge', label: 'item', outV: 18, inVs: [31], shard: 30, property: 'references' },
+		{ id: 43, type: 'edge', label: 'contains', outV: 10, inVs: [11] },
+		{ id: 44, type: 'edge', label: 'contains', outV: 30, inVs: [31] },
+		{ id: 45, type: 'edge', label: 'contains', outV: 3, inVs: [10, 30] }
+	];
+}
+
+export function base64(content: string): string {
+	return Buffer.from(content, 'utf8').toString('base64');
+}
+
+export function createTempDirectory(): string {
+	return fs.mkdtempSync(path.join(os.tmpdir(), 'lsif-test-'));
+}
+
+export function writeDump(directory: string, name: string, elements: object[]): string {
+	const file = path.join(directory, name);
+	fs.writeFileSync(file, elements.map(element => JSON.stringify(element)).join('\n') + '\n', 'utf8');
+	return file;
+}
+
+/**
+ * Rewrites the vertex values of a graph database into the compressed array form.
+ * Every vertex label gets its own compressor. The compressor ids only depend on the
+ * labels present in the database so that two databases with the same labels use
+ * the same ids. `reverse` lays out the properties in reverse order which gives the
+ * same ids a different meaning.
+ */
+export function compressGraphDatabase(file: string, reverse: boolean): void {
+	const db = new Sqlite(file);
+	try {
+		const metaRow = db.prepare('Select value From meta').get() as { value: string };
+		const metaData: MetaData = JSON.parse(metaRow.value);
+		const compressors = metaData.compressors!;
+		const labelCompressor = compressors.all.find(description => description.id === compressors.vertexCompressor)!;
+		const labelShortForm = labelCompressor.properties[0].shortForm!;
+		const shortForms: Map<string, number> = new Map();
+		for (const [long, short] of labelShortForm) {
+			shortForms.set(long, short as number);
+		}
+
+		const vertices = db.prepare('Select id, value From vertices').all() as { id: number; value: string }[];
+		const properties: Map<string, Set<string>> = new Map();
+		for (const row of vertices) {
+			const vertex = JSON.parse(row.value);
+			let names = properties.get(vertex.label);
+			if (names === undefined) {
+				names = new Set();
+				properties.set(vertex.label, names);
+			}
+			for (const name of Object.keys(vertex)) {
+				if (vertex[name] !== undefined) {
+					names.add(name);
+				}
+			}
+		}
+
+		let nextId = Math.max(...compressors.all.map(description => description.id)) + 1;
+		const layouts: Map<string, { id: number; names: string[] }> = new Map();
+		for (const label of Array.from(properties.keys()).sort()) {
+			const names = Array.from(properties.get(label)!).sort();
+			if (reverse) {
+				names.reverse();
+			}
+			const description: CompressorDescription = {
+				id: nextId++,
+				parent: undefined,
+				properties: names.map((name, index): CompressorPropertyDescription => {
+					const compressionKind = name === 'id' ? CompressionKind.id : name === 'label' ? CompressionKind.scalar : CompressionKind.raw;
+					return { name, index: index + 1, compressionKind, shortForm: name === 'label' ? labelShortForm : undefined };
+				})
+			};
+			compressors.all.push(description);
+			layouts.set(label, { id: description.id, names });
+		}
+
+		const updateVertexStmt = db.prepare('Update vertices Set value = ? Where id = ?');
+		db.transaction(() => {
+			for (const row of vertices) {
+				const vertex = JSON.parse(row.value);
+				const layout = layouts.get(vertex.label)!;
+				const compressed: any[] = [layout.id];
+				for (const name of layout.names) {
+					const value = vertex[name];
+					compressed.push(value === undefined ? null : name === 'label' ? shortForms.get(value) : value);
+				}
+				updateVertexStmt.run(JSON.stringify(compressed), row.id);
+			}
+			db.prepare('Update meta Set value = ?').run(JSON.stringify(metaData));
+		})();
+	} finally {
+		db.close();
+	}
+}
@@ -0,0 +1,110 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, it, before, after } from 'node:test';
+
+import * as lsp from 'vscode-languageserver';
+import { MonikerKind } from 'lsif-protocol';
+
+import { noopTransformer } from '../database';
+import { GraphStore } from '../graphStore';
+import { importDump } from '../importer';
+import { a_ts, b_ts, compressGraphDatabase, createTempDirectory, sampleDump, writeDump } from './fixtures';
+
+async function createGraphDatabase(directory: string, name: string, hover: string): Promise<string> {
+	const output = path.join(directory, `${name}.db`);
+	await importDump(writeDump(directory, `${name}.lsif`, sampleDump(hover)), output, { format: 'graph' });
+	return output;
+}
+
+function hoverText(hover: lsp.Hover | undefined): string | undefined {
+	return hover !== undefined && Array.isArray(hover.contents) ? hover.contents[0] as string : undefined;
+}
+
+describe('GraphStore', () => {
+
+	let directory: string;
+
+	before(() => {
+		directory = createTempDirectory();
+	});
+
+	after(() => {
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	it('resolves hover, definitions and references', async () => {
+		const store = new GraphStore();
+		await store.load(await createGraphDatabase(directory, 'plain', 'plain'), () => noopTransformer);
+		try {
+			assert.strictEqual(store.getWorkspaceRoot().toString(), 'file:///w');
+			assert.strictEqual(hoverText(store.hover(b_ts, { line: 1, character: 1 })), 'plain');
+			assert.deepStrictEqual(store.definitions(b_ts, { line: 1, character: 1 }), [
+				lsp.Location.create(a_ts, lsp.Range.create(0, 16, 0, 19))
+			]);
+			const references = store.references(a_ts, { line: 0, character: 17 }, { includeDeclaration: true }) as lsp.Location[];
+			assert.deepStrictEqual(references.map(location => location.uri).sort(), [a_ts, b_ts]);
+		} finally {
+			store.close();
+		}
+	});
+
+	it('lists projects, documents and monikers', async () => {
+		const elements = sampleDump().concat([
+			{ id: 60, type: 'vertex', label: 'document', uri: 'file:///external/c.ts', languageId: 'typescript', contents: '' }
+		]);
+		const output = path.join(directory, 'outline.db');
+		await importDump(writeDump(directory, 'outline.lsif', elements), output, { format: 'graph' });
+		const store = new GraphStore();
+		await store.load(output, () => noopTransformer);
+		try {
+			const outline = store.outline();
+			assert.deepStrictEqual(outline.projects.map(project => project.documents), [[a_ts, b_ts]]);
+			assert.deepStrictEqual(outline.documents, []);
+			assert.deepStrictEqual(outline.externalDocuments, ['file:///external/c.ts']);
+			const monikers = store.listMonikers('tsc', MonikerKind.export);
+			assert.deepStrictEqual(monikers, [{ identifier: 'a:foo', location: lsp.Location.create(a_ts, lsp.Range.create(0, 16, 0, 19)) }]);
+		} finally {
+			store.close();
+		}
+	});
+
+	it('decompresses compressed vertices', async () => {
+		const file = await createGraphDatabase(directory, 'compressed', 'compressed');
+		compressGraphDatabase(file, false);
+		const store = new GraphStore();
+		await store.load(file, () => noopTransformer);
+		try {
+			assert.strictEqual(store.getWorkspaceRoot().toString(), 'file:///w');
+			assert.strictEqual(hoverText(store.hover(a_ts, { line: 0, character: 17 })), 'compressed');
+		} finally {
+			store.close();
+		}
+	});
+
+	it('keeps the compressors of databases loaded side by side apart', async () => {
+		const first = await createGraphDatabase(directory, 'first', 'first');
+		const second = await createGraphDatabase(directory, 'second', 'second');
+		// Both databases use the same compressor ids with a different property layout.
+		compressGraphDatabase(first, false);
+		compressGraphDatabase(second, true);
+
+		const firstStore = new GraphStore();
+		const secondStore = new GraphStore();
+		await firstStore.load(first, () => noopTransformer);
+		await secondStore.load(second, () => noopTransformer);
+		try {
+			assert.strictEqual(hoverText(firstStore.hover(b_ts, { line: 1, character: 1 })), 'first');
+			assert.strictEqual(hoverText(secondStore.hover(b_ts, { line: 1, character: 1 })), 'second');
+			assert.strictEqual(firstStore.getWorkspaceRoot().toString(), 'file:///w');
+			assert.strictEqual(secondStore.getWorkspaceRoot().toString(), 'file:///w');
+		} finally {
+			firstStore.close();
+			secondStore.close();
+		}
+	});
+});
@@ -0,0 +1,50 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, it, before, after } from 'node:test';
+
+import { importDump } from '../importer';
+import { createTempDirectory, sampleDump, writeDump } from './fixtures';
+
+describe('importDump', () => {
+
+	let directory: string;
+
+	before(() => {
+		directory = createTempDirectory();
+	});
+
+	after(() => {
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	it('imports a dump into a graph database', async () => {
+		const output = path.join(directory, 'sample.db');
+		const summary = await importDump(writeDump(directory, 'sample.lsif', sampleDump()), output, { format: 'graph' });
+		assert.strictEqual(summary.format, 'graph');
+		assert.strictEqual(summary.documents, 2);
+		assert.strictEqual(summary.ranges, 2);
+		assert.ok(fs.existsSync(output));
+	});
+
+	it('removes the database if the dump is invalid', async () => {
+		const input = path.join(directory, 'invalid.lsif');
+		fs.writeFileSync(input, '{ "id": 1, "type": "vertex"\n', 'utf8');
+		const output = path.join(directory, 'invalid.db');
+		await assert.rejects(importDump(input, output, { format: 'graph' }));
+		assert.ok(!fs.existsSync(output));
+	});
+
+	for (const format of ['graph', 'blob'] as const) {
+		it(`removes the ${format} database if finishing the import fails`, async () => {
+			const elements = sampleDump().filter(element => (element as { label: string }).label !== 'metaData');
+			const output = path.join(directory, `noMetaData.${format}.db`);
+			await assert.rejects(importDump(writeDump(directory, 'noMetaData.lsif', elements), output, { format }));
+			assert.ok(!fs.existsSync(output));
+		});
+	}
+});
@@ -0,0 +1,161 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { describe, it, before, after } from 'node:test';
+
+import * as lsp from 'vscode-languageserver';
+import { MonikerKind } from 'lsif-protocol';
+
+import { noopTransformer } from '../database';
+import { JsonStore } from '../jsonStore';
+import { a_ts, b_ts, base64, createTempDirectory, sampleDump, writeDump } from './fixtures';
+
+describe('JsonStore', () => {
+
+	let directory: string;
+
+	before(() => {
+		directory = createTempDirectory();
+	});
+
+	after(() => {
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	it('resolves hover, definitions and references', async () => {
+		const store = new JsonStore();
+		await store.load(writeDump(directory, 'sample.lsif', sampleDump('sample')), () => noopTransformer);
+		try {
+			const hover = store.hover(b_ts, { line: 1, character: 1 });
+			assert.deepStrictEqual(hover !== undefined ? hover.contents : undefined, ['sample']);
+			assert.deepStrictEqual(store.definitions(b_ts, { line: 1, character: 1 }), [
+				lsp.Location.create(a_ts, lsp.Range.create(0, 16, 0, 19))
+			]);
+			const references = store.references(a_ts, { line: 0, character: 17 }, { includeDeclaration: true }) as lsp.Location[];
+			assert.deepStrictEqual(references.map(location => location.uri).sort(), [a_ts, b_ts]);
+		} finally {
+			store.close();
+		}
+	});
+
+	it('reads payloads from disk in streaming mode', async () => {
+		const store = new JsonStore({ mode: 'streaming' });
+		await store.load(writeDump(directory, 'streaming.lsif', sampleDump('streamed')), () => noopTransformer);
+		try {
+			const hover = store.hover(a_ts, { line: 0, character: 17 });
+			assert.deepStrictEqual(hover !== undefined ? hover.contents : undefined, ['streamed']);
+			assert.strictEqual(store.readFileContent(b_ts), base64('import { foo } from "./a";\nfoo();\n'));
+		} finally {
+			store.close();
+		}
+	});
+
+	it('answers queries in streaming mode like in memory mode', async () => {
+		const file = writeDump(directory, 'compare.lsif', sampleDump('compare'));
+		const memory = new JsonStore({ mode: 'memory' });
+		const streaming = new JsonStore({ mode: 'streaming' });
+		await memory.load(file, () => noopTransformer);
+		await streaming.load(file, () => noopTransformer);
+		try {
+			const query = (store: JsonStore) => ({
+				hover: store.hover(b_ts, { line: 1, character: 1 }),
+				definitions: store.definitions(b_ts, { line: 1, character: 1 }),
+				references: store.references(b_ts, { line: 1, character: 1 }, { includeDeclaration: true }),
+				documentSymbols: store.documentSymbols(a_ts),
+				workspaceSymbols: store.workspaceSymbols('foo'),
+				monikers: store.monikers(b_ts, { line: 1, character: 1 }),
+				findByMoniker: store.findByMoniker('tsc', 'a:foo'),
+				listMonikers: store.listMonikers('tsc', MonikerKind.export),
+				inspect: store.inspect(a_ts, { line: 0, character: 17 }),
+				semanticTokens: store.semanticTokens(b_ts),
+				statistics: store.statistics()
+			});
+			assert.deepStrictEqual(query(streaming), query(memory));
+		} finally {
+			memory.close();
+			streaming.close();
+		}
+	});
+
+	it('loads compressed dumps into memory', async () => {
+		const file = path.join(directory, 'compressed.lsif.gz');
+		fs.writeFileSync(file, zlib.gzipSync(fs.readFileSync(writeDump(directory, 'compressed.lsif', sampleDump('compressed')))));
+		const store = new JsonStore({ mode: 'streaming' });
+		await store.load(file, () => noopTransformer);
+		try {
+			const hover = store.hover(a_ts, { line: 0, character: 17 });
+			assert.deepStrictEqual(hover !== undefined ? hover.contents : undefined, ['compressed']);
+		} finally {
+			store.close();
+		}
+	});
+
+	it('skips broken lines in lenient mode', async () => {
+		const lines = sampleDump('lenient').map(element => {
+			// Range 99 doesn't exist.
+			const value = element as { id: number; inVs?: number[] };
+			return JSON.stringify(value.id === 44 ? Object.assign({}, value, { inVs: [31, 99] }) : value);
+		});
+		lines.splice(3, 0, '{ "id": 5, "type": "vertex"');
+		const file = path.join(directory, 'broken.lsif');
+		fs.writeFileSync(file, lines.join('\n') + '\n', 'utf8');
+		const edgeLine = lines.findIndex(line => line.startsWith('{"id":44,'));
+
+		const store = new JsonStore({ lenient: true });
+		await store.load(file, () => noopTransformer);
+		try {
+			assert.deepStrictEqual(store.getSkippedElements().map(element => element.line), [3, edgeLine]);
+			assert.match(store.getSkippedElements()[1].message, /No vertex found for Id 99/);
+			const hover = store.hover(b_ts, { line: 1, character: 1 });
+			assert.deepStrictEqual(hover !== undefined ? hover.contents : undefined, ['lenient']);
+			assert.deepStrictEqual(store.definitions(b_ts, { line: 1, character: 1 }), [
+				lsp.Location.create(a_ts, lsp.Range.create(0, 16, 0, 19))
+			]);
+		} finally {
+			store.close();
+		}
+
+		await assert.rejects(new JsonStore({ lenient: false }).load(file, () => noopTransformer));
+
+		const streaming = new JsonStore({ mode: 'streaming', lenient: true });
+		await streaming.load(file, () => noopTransformer);
+		try {
+			assert.deepStrictEqual(streaming.getSkippedElements().map(element => element.line), [3, edgeLine]);
+			assert.deepStrictEqual(streaming.definitions(b_ts, { line: 1, character: 1 }), [
+				lsp.Location.create(a_ts, lsp.Range.create(0, 16, 0, 19))
+			]);
+		} finally {
+			streaming.close();
+		}
+	});
+
+	it('loads dumps with groups', async () => {
+		const elements = sampleDump().filter(element => (element as { label: string }).label !== 'source');
+		elements.push(
+			{ id: 100, type: 'vertex', label: 'group', name: 'w', rootUri: 'file:///w' },
+			{ id: 101, type: 'vertex', label: '$event', kind: 'begin', scope: 'group', data: 100 },
+			{ id: 102, type: 'edge', label: 'belongsTo', outV: 3, inV: 100 },
+			{ id: 103, type: 'vertex', label: '$event', kind: 'end', scope: 'group', data: 100 }
+		);
+		const store = new JsonStore();
+		await store.load(writeDump(directory, 'groups.lsif', elements), () => noopTransformer);
+		try {
+			assert.strictEqual(store.getWorkspaceRoot().toString(), 'file:///w');
+			assert.ok(store.hover(b_ts, { line: 1, character: 1 }) !== undefined);
+		} finally {
+			store.close();
+		}
+	});
+
+	it('rejects edges to unknown groups', async () => {
+		const elements = sampleDump();
+		elements.push({ id: 102, type: 'edge', label: 'belongsTo', outV: 3, inV: 100 });
+		const store = new JsonStore();
+		await assert.rejects(store.load(writeDump(directory, 'unknownGroup.lsif', elements), () => noopTransformer), /No group found for Id 100/);
+	});
+});
@@ -0,0 +1,95 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, it, before, after } from 'node:test';
+
+import * as lsp from 'vscode-languageserver';
+
+import { Database, noopTransformer } from '../database';
+import { GraphStore } from '../graphStore';
+import { importDump } from '../importer';
+import { JsonStore } from '../jsonStore';
+import { a_ts, base64, createTempDirectory, sampleDump, writeDump } from './fixtures';
+
+const c_ts = 'file:///consumer/c.ts';
+
+/**
+ * A project using `foo`. The import is a range of its own with an import moniker.
+ */
+const consumerDump: object[] = [
+	{ id: 1, type: 'vertex', label: 'metaData', version: '0.6.0', positionEncoding: 'utf-16' },
+	{ id: 2, type: 'vertex', label: 'source', workspaceRoot: 'file:///consumer' },
+	{ id: 10, type: 'vertex', label: 'document', uri: c_ts, languageId: 'typescript', contents: base64('import { foo } from "a";\n') },
+	{ id: 11, type: 'vertex', label: 'range', start: { line: 0, character: 9 }, end: { line: 0, character: 12 } },
+	{ id: 12, type: 'vertex', label: 'resultSet' },
+	{ id: 13, type: 'edge', label: 'next', outV: 11, inV: 12 },
+	{ id: 14, type: 'vertex', label: 'hoverResult', result: { contents: ['import foo'] } },
+	{ id: 15, type: 'edge', label: 'textDocument/hover', outV: 12, inV: 14 },
+	{ id: 16, type: 'vertex', label: 'definitionResult' },
+	{ id: 17, type: 'edge', label: 'textDocument/definition', outV: 12, inV: 16 },
+	{ id: 18, type: 'vertex', label: 'referenceResult' },
+	{ id: 19, type: 'edge', label: 'textDocument/references', outV: 12, inV: 18 },
+	{ id: 20, type: 'vertex', label: 'moniker', scheme: 'tsc', identifier: 'a:foo', kind: 'import' },
+	{ id: 21, type: 'edge', label: 'moniker', outV: 12, inV: 20 },
+	{ id: 40, type: 'edge', label: 'item', outV: 16, inVs: [11], shard: 10 },
+	{ id: 41, type: 'edge', label: 'item', outV: 18, inVs: [11], shard: 10, property: 'references' },
+	{ id: 43, type: 'edge', label: 'contains', outV: 10, inVs: [11] }
+];
+
+describe('findByMoniker', () => {
+
+	let directory: string;
+	const stores: [string, Database, Database][] = [];
+
+	before(async () => {
+		directory = createTempDirectory();
+		const sample = writeDump(directory, 'sample.lsif', sampleDump('export foo'));
+		const consumer = writeDump(directory, 'consumer.lsif', consumerDump);
+
+		const jsonSample = new JsonStore();
+		await jsonSample.load(sample, () => noopTransformer);
+		const jsonConsumer = new JsonStore();
+		await jsonConsumer.load(consumer, () => noopTransformer);
+		stores.push(['JsonStore', jsonSample, jsonConsumer]);
+
+		await importDump(sample, path.join(directory, 'sample.db'), { format: 'graph' });
+		await importDump(consumer, path.join(directory, 'consumer.db'), { format: 'graph' });
+		const graphSample = new GraphStore();
+		await graphSample.load(path.join(directory, 'sample.db'), () => noopTransformer);
+		const graphConsumer = new GraphStore();
+		await graphConsumer.load(path.join(directory, 'consumer.db'), () => noopTransformer);
+		stores.push(['GraphStore', graphSample, graphConsumer]);
+	});
+
+	after(() => {
+		for (const [, sample, consumer] of stores) {
+			sample.close();
+			consumer.close();
+		}
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	it('takes definitions and hovers from export monikers', () => {
+		for (const [name, sample] of stores) {
+			const results = sample.findByMoniker('tsc', 'a:foo');
+			assert.ok(results !== undefined, name);
+			assert.deepStrictEqual(results.definitions, [lsp.Location.create(a_ts, lsp.Range.create(0, 16, 0, 19))], name);
+			assert.deepStrictEqual(results.hover, { contents: ['export foo'] }, name);
+		}
+	});
+
+	it('takes only references from import monikers', () => {
+		for (const [name, , consumer] of stores) {
+			const results = consumer.findByMoniker('tsc', 'a:foo');
+			assert.ok(results !== undefined, name);
+			assert.deepStrictEqual(results.declarations, [], name);
+			assert.deepStrictEqual(results.definitions, [], name);
+			assert.strictEqual(results.hover, undefined, name);
+			assert.deepStrictEqual(results.references, [lsp.Location.create(c_ts, lsp.Range.create(0, 9, 0, 12))], name);
+		}
+	});
+});
@@ -0,0 +1,82 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, it, before, after } from 'node:test';
+
+import * as lsp from 'vscode-languageserver';
+
+import { BlobStore } from '../blobStore';
+import { Database, noopTransformer } from '../database';
+import { GraphStore } from '../graphStore';
+import { importDump } from '../importer';
+import { JsonStore } from '../jsonStore';
+import { a_ts, b_ts, createTempDirectory, sampleDump, writeDump } from './fixtures';
+
+describe('semanticTokens', () => {
+
+	let directory: string;
+	const stores: [string, Database][] = [];
+
+	before(async () => {
+		directory = createTempDirectory();
+		// The imported `foo` shares the result set of the call.
+		const elements = sampleDump().concat([
+			{ id: 50, type: 'vertex', label: 'range', start: { line: 0, character: 9 }, end: { line: 0, character: 12 } },
+			{ id: 51, type: 'edge', label: 'next', outV: 50, inV: 12 },
+			{ id: 52, type: 'edge', label: 'contains', outV: 30, inVs: [50] }
+		]);
+		const dump = writeDump(directory, 'sample.lsif', elements);
+
+		const jsonStore = new JsonStore();
+		await jsonStore.load(dump, () => noopTransformer);
+		stores.push(['JsonStore', jsonStore]);
+
+		await importDump(dump, path.join(directory, 'graph.db'), { format: 'graph' });
+		const graphStore = new GraphStore();
+		await graphStore.load(path.join(directory, 'graph.db'), () => noopTransformer);
+		stores.push(['GraphStore', graphStore]);
+
+		await importDump(dump, path.join(directory, 'blob.db'), { format: 'blob', tag: 'v1' });
+		const blobStore = new BlobStore();
+		await blobStore.load(path.join(directory, 'blob.db'), () => noopTransformer);
+		stores.push(['BlobStore', blobStore]);
+	});
+
+	after(() => {
+		for (const [, store] of stores) {
+			store.close();
+		}
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	it('classifies declarations by their range tag', () => {
+		for (const [name, store] of stores) {
+			assert.deepStrictEqual(store.semanticTokens(a_ts), [
+				{ range: lsp.Range.create(0, 16, 0, 19), type: lsp.SemanticTokenTypes.function, modifiers: [lsp.SemanticTokenModifiers.declaration] }
+			], name);
+		}
+	});
+
+	it('classifies references by their definition', () => {
+		for (const [name, store] of stores) {
+			const tokens = store.semanticTokens(b_ts) ?? [];
+			assert.deepStrictEqual(tokens.map(token => token.range).sort((a, b) => a.start.line - b.start.line), [
+				lsp.Range.create(0, 9, 0, 12),
+				lsp.Range.create(1, 0, 1, 3)
+			], name);
+			assert.ok(tokens.every(token => token.type === lsp.SemanticTokenTypes.function && token.modifiers.length === 0), name);
+		}
+	});
+
+	it('only classifies ranges on the requested lines', () => {
+		for (const [name, store] of stores) {
+			assert.deepStrictEqual(store.semanticTokens(b_ts, lsp.Range.create(1, 0, 1, 6)), [
+				{ range: lsp.Range.create(1, 0, 1, 3), type: lsp.SemanticTokenTypes.function, modifiers: [] }
+			], name);
+		}
+	});
+});
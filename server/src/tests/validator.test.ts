@@ -0,0 +1,76 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import * as assert from 'assert';
+import * as fs from 'fs';
+import { describe, it, before, after } from 'node:test';
+
+import { validateDump } from '../validator';
+import { a_ts, base64, createTempDirectory, sampleDump, workspaceRoot, writeDump } from './fixtures';
+
+/**
+ * A dump with one problem of every kind. The comments give the zero based line.
+ */
+const brokenDump: object[] = [
+	/* 0 */ { id: 1, type: 'vertex', label: 'metaData', version: 'next', positionEncoding: 'utf-16' },
+	/* 1 */ { id: 2, type: 'vertex', label: 'source', workspaceRoot },
+	/* 2 */ { id: 10, type: 'vertex', label: 'document', uri: a_ts, languageId: 'typescript', contents: base64('abc\n') },
+	/* 3 */ { id: 11, type: 'vertex', label: 'range', start: { line: 0, character: 0 }, end: { line: 0, character: 2 } },
+	/* 4 */ { id: 12, type: 'vertex', label: 'range', start: { line: 0, character: 1 }, end: { line: 0, character: 3 } },
+	/* 5 */ { id: 13, type: 'vertex', label: 'range', start: { line: 5, character: 0 }, end: { line: 5, character: 1 } },
+	/* 6 */ { id: 14, type: 'edge', label: 'contains', outV: 10, inVs: [11, 12, 13] },
+	/* 7 */ { id: 20, type: 'vertex', label: 'document', uri: a_ts, languageId: 'typescript', contents: base64('abcd\n') },
+	/* 8 */ { id: 30, type: 'vertex', label: 'resultSet' },
+	/* 9 */ { id: 31, type: 'vertex', label: 'resultSet' },
+	/* 10 */ { id: 32, type: 'edge', label: 'next', outV: 30, inV: 31 },
+	/* 11 */ { id: 33, type: 'edge', label: 'next', outV: 31, inV: 30 },
+	/* 12 */ { id: 34, type: 'edge', label: 'textDocument/hover', outV: 31, inV: 99 }
+];
+
+describe('validateDump', () => {
+
+	let directory: string;
+
+	before(() => {
+		directory = createTempDirectory();
+	});
+
+	after(() => {
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	it('finds no problems in a valid dump', async () => {
+		const result = await validateDump(writeDump(directory, 'sample.lsif', sampleDump()), {});
+		assert.deepStrictEqual(result.problems, []);
+		assert.strictEqual(result.vertices, 12);
+		assert.strictEqual(result.edges, 12);
+	});
+
+	it('reports every problem with its line and severity', async () => {
+		const result = await validateDump(writeDump(directory, 'broken.lsif', brokenDump), {});
+		assert.deepStrictEqual(result.problems.map(problem => [problem.line, problem.severity]), [
+			[0, 'error'],
+			[4, 'warning'],
+			[5, 'warning'],
+			[7, 'error'],
+			[8, 'error'],
+			[12, 'error']
+		]);
+		const messages = result.problems.map(problem => problem.message);
+		assert.match(messages[0], /No valid semantic version string/);
+		assert.match(messages[1], /Range 12 overlaps range 11/);
+		assert.match(messages[2], /Range 13 lies outside of document/);
+		assert.match(messages[3], /different content/);
+		assert.match(messages[4], /form a cycle/);
+		assert.match(messages[5], /No vertex found for Id 99/);
+		assert.strictEqual(result.errors, 4);
+		assert.strictEqual(result.warnings, 2);
+	});
+
+	it('counts problems beyond maxProblems', async () => {
+		const result = await validateDump(writeDump(directory, 'limited.lsif', brokenDump), { maxProblems: 2 });
+		assert.strictEqual(result.problems.length, 2);
+		assert.strictEqual(result.errors + result.warnings, 6);
+	});
+});
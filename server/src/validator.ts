@@ -0,0 +1,440 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import * as crypto from 'crypto';
+
+import * as SemVer from 'semver';
+import { Id, Vertex, Edge, Document, Range, ElementTypes, VertexLabels, EdgeLabels, ItemEdgeProperties } from 'lsif-protocol';
+
+import { DumpReaderOptions, readDump } from './dumpReader';
+import { VersionCompatibility } from './jsonStore';
+
+export type ProblemSeverity = 'error' | 'warning';
+
+export interface Problem {
+	/**
+	 * The zero based line of the element in the dump.
+	 */
+	line: number;
+	severity: ProblemSeverity;
+	message: string;
+}
+
+export interface ValidationResult {
+	vertices: number;
+	edges: number;
+	errors: number;
+	warnings: number;
+
+	/**
+	 * The first `maxProblems` problems found, ordered by line.
+	 */
+	problems: Problem[];
+}
+
+export interface ValidatorOptions extends DumpReaderOptions {
+	/**
+	 * The maximal number of problems returned. All problems are counted. Defaults to 1000.
+	 */
+	maxProblems?: number;
+}
+
+/**
+ * Checks a LSIF line json dump. Unlike the `JsonStore` the validation doesn't stop
+ * at the first problem.
+ */
+export function validateDump(file: string, options: ValidatorOptions): Promise<ValidationResult> {
+	const validator = new Validator(options.maxProblems !== undefined ? options.maxProblems : 1000);
+	return readDump(file, options, (line, offset, length, lineNumber) => validator.process(line, lineNumber)).then(() => validator.finish());
+}
+
+/**
+ * The label of the vertex an edge has to point to.
+ */
+const inVertexLabels: Map<string, string> = new Map<string, string>([
+	[EdgeLabels.next, VertexLabels.resultSet],
+	[EdgeLabels.moniker, VertexLabels.moniker],
+	[EdgeLabels.attach, VertexLabels.moniker],
+	[EdgeLabels.packageInformation, VertexLabels.packageInformation],
+	[EdgeLabels.textDocument_hover, VertexLabels.hoverResult],
+	[EdgeLabels.textDocument_declaration, VertexLabels.declarationResult],
+	[EdgeLabels.textDocument_definition, VertexLabels.definitionResult],
+	[EdgeLabels.textDocument_typeDefinition, VertexLabels.typeDefinitionResult],
+	[EdgeLabels.textDocument_references, VertexLabels.referenceResult],
+	[EdgeLabels.textDocument_implementation, VertexLabels.implementationResult],
+	[EdgeLabels.textDocument_documentSymbol, VertexLabels.documentSymbolResult],
+	[EdgeLabels.textDocument_foldingRange, VertexLabels.foldingRangeResult],
+	[EdgeLabels.textDocument_documentLink, VertexLabels.documentLinkResult],
+	[EdgeLabels.textDocument_diagnostic, VertexLabels.diagnosticResult]
+]);
+
+const itemOutVertexLabels: Set<string> = new Set<string>([
+	VertexLabels.declarationResult, VertexLabels.definitionResult, VertexLabels.typeDefinitionResult, VertexLabels.referenceResult, VertexLabels.implementationResult
+]);
+
+/**
+ * The label of the vertex an item edge with the given property has to point to.
+ */
+const itemInVertexLabels: Map<string | undefined, string> = new Map<string | undefined, string>([
+	[undefined, VertexLabels.range],
+	[ItemEdgeProperties.declarations, VertexLabels.range],
+	[ItemEdgeProperties.definitions, VertexLabels.range],
+	[ItemEdgeProperties.references, VertexLabels.range],
+	[ItemEdgeProperties.referenceResults, VertexLabels.referenceResult],
+	[ItemEdgeProperties.referenceLinks, VertexLabels.moniker],
+	[ItemEdgeProperties.implementationResults, VertexLabels.implementationResult],
+	[ItemEdgeProperties.implementationLinks, VertexLabels.moniker]
+]);
+
+interface VertexInfo {
+	label: string;
+	line: number;
+}
+
+interface RangeInfo {
+	id: Id;
+	line: number;
+	start: { line: number; character: number; };
+	end: { line: number; character: number; };
+}
+
+interface DocumentInfo {
+	uri: string;
+	line: number;
+
+	/**
+	 * The length of every line of the content in UTF-16 code units.
+	 */
+	lineLengths: number[] | undefined;
+}
+
+/**
+ * An edge pointing to a vertex which wasn't emitted yet.
+ */
+interface PendingEnd {
+	id: Id;
+	line: number;
+}
+
+class Validator {
+
+	private maxProblems: number;
+	private result: ValidationResult;
+
+	private metaData: { line: number; version: string | undefined; positionEncoding: string | undefined; } | undefined;
+	private hasWorkspaceRoot: boolean;
+
+	private vertices: Map<Id, VertexInfo>;
+	private edges: Set<Id>;
+	private documents: Map<Id, DocumentInfo>;
+	private contents: Map<string, { hash: string; line: number; }>;
+	private ranges: Map<Id, RangeInfo>;
+	private contains: Map<Id, Id[]>;
+	private contained: Set<Id>;
+	private next: Map<Id, Id>;
+	private outgoing: Set<Id>;
+	private pending: PendingEnd[];
+
+	public constructor(maxProblems: number) {
+		this.maxProblems = maxProblems;
+		this.result = { vertices: 0, edges: 0, errors: 0, warnings: 0, problems: [] };
+		this.hasWorkspaceRoot = false;
+		this.vertices = new Map();
+		this.edges = new Set();
+		this.documents = new Map();
+		this.contents = new Map();
+		this.ranges = new Map();
+		this.contains = new Map();
+		this.contained = new Set();
+		this.next = new Map();
+		this.outgoing = new Set();
+		this.pending = [];
+	}
+
+	public process(line: string, lineNumber: number): void {
+		let element: Vertex | Edge;
+		try {
+			element = JSON.parse(line);
+		} catch (error: any) {
+			this.error(lineNumber, `The line is no valid JSON: ${error.message}`);
+			return;
+		}
+		if (element.id === undefined) {
+			this.error(lineNumber, 'The element has no id.');
+			return;
+		}
+		if (this.vertices.has(element.id) || this.edges.has(element.id)) {
+			this.error(lineNumber, `The id ${element.id} is used more than once.`);
+			return;
+		}
+		switch (element.type) {
+			case ElementTypes.vertex:
+				this.result.vertices++;
+				this.processVertex(element, lineNumber);
+				break;
+			case ElementTypes.edge:
+				this.result.edges++;
+				this.edges.add(element.id);
+				this.processEdge(element, lineNumber);
+				break;
+			default:
+				this.error(lineNumber, `Unknown element type ${(element as { type: string }).type}.`);
+		}
+	}
+
+	private processVertex(vertex: Vertex, line: number): void {
+		this.vertices.set(vertex.id, { label: vertex.label, line });
+		switch (vertex.label) {
+			case VertexLabels.metaData:
+				if (this.metaData !== undefined) {
+					this.error(line, `Duplicate meta data vertex. The first one is in line ${this.metaData.line + 1}.`);
+				} else {
+					this.metaData = { line, version: vertex.version, positionEncoding: vertex.positionEncoding };
+				}
+				break;
+			case VertexLabels.source:
+				this.hasWorkspaceRoot = this.hasWorkspaceRoot || vertex.workspaceRoot !== undefined;
+				break;
+			case VertexLabels.document:
+				this.processDocument(vertex, line);
+				break;
+			case VertexLabels.range:
+				this.processRange(vertex, line);
+				break;
+			default:
+				if ((vertex as { label: string }).label === 'group' && (vertex as { rootUri?: string }).rootUri !== undefined) {
+					this.hasWorkspaceRoot = true;
+				}
+		}
+	}
+
+	private processDocument(document: Document, line: number): void {
+		let lineLengths: number[] | undefined;
+		if (document.contents !== undefined) {
+			lineLengths = Buffer.from(document.contents, 'base64').toString('utf8').split(/\r?\n/).map(value => value.length);
+			const hash = crypto.createHash('md5').update(document.contents).digest('base64');
+			const existing = this.contents.get(document.uri);
+			if (existing === undefined) {
+				this.contents.set(document.uri, { hash, line });
+			} else if (existing.hash !== hash) {
+				this.error(line, `Document ${document.uri} has different content than the document in line ${existing.line + 1}.`);
+			}
+		}
+		this.documents.set(document.id, { uri: document.uri, line, lineLengths });
+	}
+
+	private processRange(range: Range, line: number): void {
+		if (range.start === undefined || range.end === undefined) {
+			this.error(line, `Range ${range.id} has no start or end position.`);
+			return;
+		}
+		if (range.start.line > range.end.line || (range.start.line === range.end.line && range.start.character > range.end.character)) {
+			this.error(line, `Range ${range.id} ends before it starts.`);
+			return;
+		}
+		this.ranges.set(range.id, { id: range.id, line, start: range.start, end: range.end });
+	}
+
+	private processEdge(edge: Edge, line: number): void {
+		const inVs: Id[] = Edge.is1N(edge) ? edge.inVs : [(edge as { inV: Id }).inV];
+		const outV = this.findVertex(edge.outV, line);
+		this.outgoing.add(edge.outV);
+		const inVertices = inVs.map(inV => this.findVertex(inV, line));
+		switch (edge.label) {
+			case EdgeLabels.contains:
+				if (outV !== undefined && outV.label === VertexLabels.document) {
+					for (let i = 0; i < inVs.length; i++) {
+						this.checkLabel(line, inVs[i], inVertices[i], VertexLabels.range);
+						this.contained.add(inVs[i]);
+					}
+					const values = this.contains.get(edge.outV);
+					if (values === undefined) {
+						this.contains.set(edge.outV, inVs.slice());
+					} else {
+						values.push(...inVs);
+					}
+				}
+				break;
+			case EdgeLabels.item: {
+				if (outV !== undefined && !itemOutVertexLabels.has(outV.label)) {
+					this.warning(line, `Item edge starts at a ${outV.label} vertex.`);
+				}
+				const shard = (edge as { shard?: Id; document?: Id }).shard ?? (edge as { document?: Id }).document;
+				if (shard === undefined) {
+					this.warning(line, 'Item edge has no shard.');
+				} else {
+					this.checkLabel(line, shard, this.findVertex(shard, line), VertexLabels.document);
+				}
+				const expected = itemInVertexLabels.get(edge.property);
+				if (expected === undefined) {
+					this.warning(line, `Unknown item edge property ${edge.property}.`);
+				} else {
+					for (let i = 0; i < inVs.length; i++) {
+						this.checkLabel(line, inVs[i], inVertices[i], expected);
+					}
+				}
+				break;
+			}
+			case EdgeLabels.next:
+				this.next.set(edge.outV, inVs[0]);
+				this.checkLabel(line, inVs[0], inVertices[0], VertexLabels.resultSet);
+				break;
+			default: {
+				const expected = inVertexLabels.get(edge.label);
+				if (expected !== undefined) {
+					this.checkLabel(line, inVs[0], inVertices[0], expected);
+				}
+			}
+		}
+	}
+
+	private findVertex(id: Id, line: number): VertexInfo | undefined {
+		const result = this.vertices.get(id);
+		if (result === undefined) {
+			// The vertex might still come. Vertices have to be emitted before their edges though.
+			this.pending.push({ id, line });
+		}
+		return result;
+	}
+
+	private checkLabel(line: number, id: Id, vertex: VertexInfo | undefined, expected: string): void {
+		if (vertex !== undefined && vertex.label !== expected) {
+			this.error(line, `The edge points to ${vertex.label} vertex ${id} but a ${expected} vertex is expected.`);
+		}
+	}
+
+	public finish(): ValidationResult {
+		this.checkMetaData();
+		for (const end of this.pending) {
+			const vertex = this.vertices.get(end.id);
+			if (vertex === undefined) {
+				this.error(end.line, `No vertex found for Id ${end.id}.`);
+			} else {
+				this.warning(end.line, `Vertex ${end.id} is emitted in line ${vertex.line + 1} after this edge. Vertices have to be emitted before their edges.`);
+			}
+		}
+		this.checkRanges();
+		this.checkNextCycles();
+		for (const [id, vertex] of this.vertices) {
+			if (vertex.label === VertexLabels.resultSet && !this.outgoing.has(id)) {
+				this.warning(vertex.line, `Result set ${id} has no results.`);
+			}
+		}
+		this.result.problems.sort((a, b) => a.line - b.line);
+		return this.result;
+	}
+
+	private checkMetaData(): void {
+		if (this.metaData === undefined) {
+			this.error(0, 'No meta data vertex found.');
+			return;
+		}
+		const line = this.metaData.line;
+		if (this.metaData.version === undefined) {
+			this.error(line, 'The meta data has no version.');
+		} else {
+			const semVer = SemVer.parse(this.metaData.version);
+			if (!semVer) {
+				this.error(line, `No valid semantic version string. The version is: ${this.metaData.version}`);
+			} else if (!VersionCompatibility.isSupported(semVer)) {
+				this.error(line, `LSIF version ${this.metaData.version} is not supported. Version compatibility:\n${VersionCompatibility.asTable()}`);
+			}
+		}
+		if (this.metaData.positionEncoding !== 'utf-16') {
+			this.error(line, `Position encoding ${this.metaData.positionEncoding} is not supported. Only utf-16 is.`);
+		}
+		if (!this.hasWorkspaceRoot) {
+			this.error(line, 'No project root provided.');
+		}
+	}
+
+	private checkRanges(): void {
+		for (const [documentId, rangeIds] of this.contains) {
+			const document = this.documents.get(documentId)!;
+			const ranges: RangeInfo[] = [];
+			for (const id of rangeIds) {
+				const range = this.ranges.get(id);
+				if (range === undefined) {
+					continue;
+				}
+				ranges.push(range);
+				const lineLengths = document.lineLengths;
+				if (lineLengths !== undefined && !Validator.isInside(lineLengths, range)) {
+					this.warning(range.line, `Range ${range.id} lies outside of document ${document.uri}.`);
+				}
+			}
+			this.checkOverlaps(ranges);
+		}
+		for (const range of this.ranges.values()) {
+			if (!this.contained.has(range.id)) {
+				this.warning(range.line, `Range ${range.id} doesn't belong to a document.`);
+			}
+		}
+	}
+
+	private static isInside(lineLengths: number[], range: RangeInfo): boolean {
+		return range.end.line < lineLengths.length && range.start.character <= lineLengths[range.start.line] && range.end.character <= lineLengths[range.end.line];
+	}
+
+	/**
+	 * Ranges may nest but must not partially overlap.
+	 */
+	private checkOverlaps(ranges: RangeInfo[]): void {
+		ranges.sort((a, b) => Validator.compare(a.start, b.start) || Validator.compare(b.end, a.end));
+		const open: RangeInfo[] = [];
+		for (const range of ranges) {
+			while (open.length > 0 && Validator.compare(open[open.length - 1].end, range.start) <= 0) {
+				open.pop();
+			}
+			const enclosing = open.length > 0 ? open[open.length - 1] : undefined;
+			if (enclosing !== undefined) {
+				if (Validator.compare(enclosing.start, range.start) === 0 && Validator.compare(enclosing.end, range.end) === 0) {
+					this.warning(range.line, `Range ${range.id} has the same position as range ${enclosing.id}.`);
+				} else if (Validator.compare(enclosing.end, range.end) < 0) {
+					this.warning(range.line, `Range ${range.id} overlaps range ${enclosing.id}.`);
+				}
+			}
+			open.push(range);
+		}
+	}
+
+	private static compare(a: { line: number; character: number; }, b: { line: number; character: number; }): number {
+		return a.line !== b.line ? a.line - b.line : a.character - b.character;
+	}
+
+	private checkNextCycles(): void {
+		// Ids whose chain is known to end.
+		const done: Set<Id> = new Set();
+		for (const start of this.next.keys()) {
+			const chain: Set<Id> = new Set();
+			let current: Id | undefined = start;
+			while (current !== undefined && !done.has(current)) {
+				if (chain.has(current)) {
+					const vertex = this.vertices.get(current);
+					this.error(vertex !== undefined ? vertex.line : 0, `The next edges starting at ${current} form a cycle.`);
+					break;
+				}
+				chain.add(current);
+				current = this.next.get(current);
+			}
+			chain.forEach(id => done.add(id));
+		}
+	}
+
+	private error(line: number, message: string): void {
+		this.result.errors++;
+		this.addProblem({ line, severity: 'error', message });
+	}
+
+	private warning(line: number, message: string): void {
+		this.result.warnings++;
+		this.addProblem({ line, severity: 'warning', message });
+	}
+
+	private addProblem(problem: Problem): void {
+		if (this.result.problems.length < this.maxProblems) {
+			this.result.problems.push(problem);
+		}
+	}
+}